@@ -0,0 +1,189 @@
+import { IFSM, IFSMConfig, IStateConfig, TransitionConfig, TransitionType } from "../fsm/";
+import { AnalysisIssueType, AnalysisSeverity, IFSMAnalysisIssue, IFSMAnalysisReport } from "./models";
+
+/**
+ * @description
+ * Статический анализатор графа состояний автомата.
+ * Находит недостижимые состояния, тупиковые нефинальные состояния,
+ * дублирующиеся переходы, несовпадение Store у подсостояний и регионов
+ * и bubble подсостояний в несуществующие состояния.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const report = new FSMAnalyzer(builder.config).analyze();
+ * expect(report.issues).toEqual([]);
+ * ```
+ * 
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export class FSMAnalyzer<T extends object, S extends string = string, E extends string = string> {
+
+    constructor(private _config: IFSMConfig<T, S, E>) {}
+
+    /**
+     * @description
+     * Создает отчет по списку найденных проблем.
+     * 
+     * @param fsmName Имя автомата.
+     * @param issues Найденные проблемы.
+     */
+    public static report<S extends string>(fsmName: string, issues: IFSMAnalysisIssue<S>[]): IFSMAnalysisReport<S> {
+        return {
+            fsmName,
+            valid: !issues.some(issue => issue.severity === AnalysisSeverity.Error),
+            issues
+        };
+    }
+
+    /**
+     * @description
+     * Анализирует конфигурацию автомата.
+     * 
+     * @returns Отчет анализа.
+     */
+    public analyze(): IFSMAnalysisReport<S> {
+        return FSMAnalyzer.report(this._config.name, [
+            ...this.findUnreachable(),
+            ...this.findDeadEnds(),
+            ...this.findDuplicateTransitions(),
+            ...this.findStoreMismatches(),
+            ...this.findUnknownBubbleTargets()
+        ]);
+    }
+
+    private findUnreachable(): IFSMAnalysisIssue<S>[] {
+        const reachable = new Set<S>([this._config.initialState]);
+        const queue = [this._config.initialState];
+
+        while(queue.length) {
+            const state = this._config.states.find(s => s.name === queue.shift());
+            if(!state) continue;
+
+            this.getTargets(state).forEach(target => {
+                if(reachable.has(target)) return;
+
+                reachable.add(target);
+                queue.push(target);
+            });
+        }
+
+        return this._config.states
+            .filter(state => !reachable.has(state.name))
+            .map(state => this.createIssue(
+                AnalysisIssueType.Unreachable, 
+                state.name, 
+                'State ' + state.name + ' is unreachable from initial state ' + this._config.initialState
+            ));
+    }
+
+    private findDeadEnds(): IFSMAnalysisIssue<S>[] {
+        return this._config.states
+            .filter(state => !state.final && !this.getExternalTransitions(state).length && !this.getBubbleTargets(state).length)
+            .map(state => this.createIssue(
+                AnalysisIssueType.DeadEnd, 
+                state.name, 
+                'State ' + state.name + ' is not final, but has no transitions'
+            ));
+    }
+
+    private findDuplicateTransitions(): IFSMAnalysisIssue<S>[] {
+        const issues: IFSMAnalysisIssue<S>[] = [];
+
+        this._config.states.forEach(state => {
+            const keys = new Set<string>();
+
+            this.getExternalTransitions(state).forEach(transition => {
+                const key = [transition.to, transition.event ?? '', transition.delay ?? '', transition.done ? 'done' : ''].join('|');
+
+                if(keys.has(key)) {
+                    issues.push(this.createIssue(
+                        AnalysisIssueType.DuplicateTransition, 
+                        state.name, 
+                        'State ' + state.name + ' has duplicate transitions to ' + transition.to
+                    ));
+                }
+
+                keys.add(key);
+            });
+        });
+
+        return issues;
+    }
+
+    private findStoreMismatches(): IFSMAnalysisIssue<S>[] {
+        const parentKeys = Object.keys(this._config.store.getState()).sort().join();
+        const issues: IFSMAnalysisIssue<S>[] = [];
+
+        this._config.states.forEach(state => {
+            this.getChildren(state).forEach(child => {
+                if(child.storeAdapter.store === this._config.store.store) return;
+                if(Object.keys(child.storeAdapter.getState()).sort().join() === parentKeys) return;
+
+                issues.push(this.createIssue(
+                    AnalysisIssueType.StoreMismatch, 
+                    state.name, 
+                    'Store of ' + child.name + ' in state ' + state.name + ' does not match store of ' + this._config.name
+                ));
+            });
+        });
+
+        return issues;
+    }
+
+    private findUnknownBubbleTargets(): IFSMAnalysisIssue<S>[] {
+        const states = new Set<string>(this._config.states.map(state => state.name));
+
+        return this._config.states.flatMap(state => this.getBubbleTargets(state)
+            .filter(target => !states.has(target))
+            .map(target => this.createIssue(
+                AnalysisIssueType.UnknownBubbleTarget, 
+                state.name, 
+                'Sub-states of state ' + state.name + ' bubble to ' + target + ', which does not exist',
+                AnalysisSeverity.Error
+            ))
+        );
+    }
+
+    /**
+     * @description
+     * Возвращает состояния, в которые можно попасть из указанного:
+     * цели переходов, состояние ошибки и цели bubble из подсостояний и регионов.
+     */
+    private getTargets(state: IStateConfig<T, S, E>): S[] {
+        const errorState = state.errorState ?? this._config.errorState;
+
+        return [
+            ...this.getExternalTransitions(state).map(transition => transition.to),
+            ...(errorState ? [errorState] : []),
+            ...this.getBubbleTargets(state)
+        ];
+    }
+
+    private getExternalTransitions(state: IStateConfig<T, S, E>): TransitionConfig<T, S, E>[] {
+        return (state.transitions || []).filter(transition => transition.type !== TransitionType.Internal);
+    }
+
+    private getBubbleTargets(state: IStateConfig<T, S, E>): S[] {
+        return this.getChildren(state).flatMap(child => 
+            [...child.states.values()]
+                .filter(childState => childState.bubble)
+                .map(childState => childState.bubble as S)
+        );
+    }
+
+    private getChildren(state: IStateConfig<T, S, E>): IFSM<any, any, any>[] {
+        return [...(state.subStates ? [state.subStates] : []), ...(state.regions || [])];
+    }
+
+    private createIssue(
+        type: AnalysisIssueType, 
+        state: S, 
+        message: string, 
+        severity: AnalysisSeverity = AnalysisSeverity.Warning
+    ): IFSMAnalysisIssue<S> {
+        return { type, severity, state, message };
+    }
+}
@@ -0,0 +1,28 @@
+import { AnalysisIssueType, AnalysisSeverity } from './types';
+
+/**
+ * Проблема, найденная при анализе графа состояний.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMAnalysisIssue<S extends string = string> {
+    type: AnalysisIssueType;
+    severity: AnalysisSeverity;
+    /**
+     * Состояние, к которому относится проблема.
+     */
+    state: S;
+    message: string;
+}
+
+/**
+ * Отчет статического анализа конфигурации автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMAnalysisReport<S extends string = string> {
+    fsmName: string;
+    /**
+     * Нет ли в отчете проблем уровня AnalysisSeverity.Error.
+     */
+    valid: boolean;
+    issues: IFSMAnalysisIssue<S>[];
+}
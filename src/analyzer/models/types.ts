@@ -0,0 +1,43 @@
+export enum AnalysisIssueType {
+    /**
+     * State cannot be reached from the initial state
+     */
+    Unreachable = 'unreachable',
+
+    /**
+     * Non-final state has no way out
+     */
+    DeadEnd = 'dead-end',
+
+    /**
+     * State has several transitions of the same kind to the same target
+     */
+    DuplicateTransition = 'duplicate-transition',
+
+    /**
+     * State lifecycle has both chain and groups
+     */
+    ActionsConflict = 'actions-conflict',
+
+    /**
+     * Sub-states or region store shape differs from the parent store
+     */
+    StoreMismatch = 'store-mismatch',
+
+    /**
+     * Sub-state bubbles to a state the parent does not have
+     */
+    UnknownBubbleTarget = 'unknown-bubble-target'
+}
+
+export enum AnalysisSeverity {
+    /**
+     * Configuration cannot be built
+     */
+    Error = 'error',
+
+    /**
+     * Configuration can be built, but is probably wrong
+     */
+    Warning = 'warning'
+}
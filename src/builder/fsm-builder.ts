@@ -7,16 +7,36 @@ import {
 } from "empress-core";
 
 import { 
+    ErrorPolicy, 
     FSM, 
+    HistoryType, 
+    IExecutionControllerLike, 
     IFSM, 
     IFSMConfig, 
+    IGroupsContainerLike, 
+    IHooksConfig, 
     IStateConfig, 
     IStateLifeCycleData, 
-    StateAction 
+    QueuePolicy, 
+    StateAction, 
+    StateContextFactory, 
+    TransitionCondition, 
+    TransitionConfig, 
+    TransitionContext, 
+    TransitionStrategy, 
+    TransitionType 
 } from "../fsm/";
 
 import { EmpressStoreFactory } from "../factory/";
+import { IClock } from "../clock/";
 import { IStoreAdapter } from "../store-adapter/";
+import { 
+    AnalysisIssueType, 
+    AnalysisSeverity, 
+    FSMAnalyzer, 
+    IFSMAnalysisIssue, 
+    IFSMAnalysisReport 
+} from "../analyzer/";
 
 /**
  * @description
@@ -45,30 +65,44 @@ import { IStoreAdapter } from "../store-adapter/";
  *       })
  *     .build();
  * ```
+ * 
+ * Имена состояний и событий можно типизировать, тогда опечатки в именах
+ * будут обнаружены на этапе компиляции:
+ * 
+ * ```typescript
+ * type GlobalStates = 'connection' | 'loading' | 'main';
+ * const builder = new FSMBuilder<IGlobalStore, GlobalStates>('global', store);
+ * ```
+ * 
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export class FSMBuilder<T extends object> {
+export class FSMBuilder<T extends object, S extends string = string, E extends string = string> {
 
     /**
      * @description
      * Возвращает конфигурацию FSM.
      */
-    public get config(): IFSMConfig<T> {
+    public get config(): IFSMConfig<T, S, E> {
         return this._config;
     }
 
-    private _config: IFSMConfig<T> = {
+    private _config: IFSMConfig<T, S, E> = {
         name: '',
         store: new EmpressStoreFactory().create<T>({} as T),
-        initialState: '',
+        initialState: '' as S,
         states: []
     };
 
-    private _onEnterChains: Map<string, (chain: SystemChain, data: IStateLifeCycleData<T>) => void> = new Map();
-    private _onEnterGroups: Map<string, {action: GroupType<T>, id: string}[]> = new Map();
-    private _onExitChains: Map<string, (chain: SystemChain, data: IStateLifeCycleData<T>) => void> = new Map();
-    private _onExitGroups: Map<string, {action: GroupType<T>, id: string}[]> = new Map();
+    private _onEnterChains: Map<S, (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void> = new Map();
+    private _onEnterGroups: Map<S, {action: GroupType<T>, id: string}[]> = new Map();
+    private _onExitChains: Map<S, (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void> = new Map();
+    private _onExitGroups: Map<S, {action: GroupType<T>, id: string}[]> = new Map();
 
-    private _editedState: IStateConfig<T> | null = null;
+    private _editedState: IStateConfig<T, S, E> | null = null;
+    private _editedTransition: TransitionConfig<T, S, E> | null = null;
+    private _strict: boolean = false;
 
     constructor(protected _name: string, protected _store: IStoreAdapter<T>) {
         this._config.name = this._name;
@@ -85,7 +119,7 @@ export class FSMBuilder<T extends object> {
      * 
      * @param value Начальное состояние FSM.
      */
-    public initialState(value: string): this {
+    public initialState(value: S): this {
         this._config.initialState = value;
         return this;
     }
@@ -96,7 +130,9 @@ export class FSMBuilder<T extends object> {
      * 
      * @param name Имя состояния.
      */
-    public state(name: string): this {
+    public state(name: S): this {
+        this._editedTransition = null;
+
         let state = this._config.states.find(s => s.name === name);
         if(state) {
             this._editedState = state;
@@ -120,9 +156,10 @@ export class FSMBuilder<T extends object> {
      * 
      * @param state Имя состояния.
      */
-    public removeState(state: string): this {
+    public removeState(state: S): this {
         this._config.states = this._config.states.filter(s => s.name !== state);
         this._editedState = null;
+        this._editedTransition = null;
         this._onEnterChains.delete(state);
         this._onExitChains.delete(state);
         this._onEnterGroups.delete(state);
@@ -136,7 +173,7 @@ export class FSMBuilder<T extends object> {
      * 
      * @param fsm Инстанс FSM устанавливаемый в качестве под-состояний.
      */
-    public subStates(fsm: IFSM<T>): this {
+    public subStates(fsm: IFSM<T, any, any>): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
@@ -166,7 +203,7 @@ export class FSMBuilder<T extends object> {
      * @param state Имя состояния.
      * @param fsm Инстанс FSM устанавливаемый в качестве под-состояний.
      */
-    public replaceSubStates(fsm: IFSM<T>): this {
+    public replaceSubStates(fsm: IFSM<T, any, any>): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
@@ -176,6 +213,107 @@ export class FSMBuilder<T extends object> {
         return this;
     }
 
+    /**
+     * @description
+     * Добавляет параллельный регион в конфигурацию текущего состояния.
+     * Все регионы запускаются при входе в состояние и останавливаются при выходе из него.
+     * 
+     * @param fsm Инстанс FSM, устанавливаемый в качестве региона.
+     */
+    public region(fsm: IFSM<T, any, any>): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.regions = [...(this._editedState.regions || []), fsm];
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Удаляет все параллельные регионы из конфигурации текущего состояния.
+     */
+    public removeRegions(): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.regions = undefined;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Помечает текущее состояние как финальное.
+     */
+    public final(): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.final = true;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Помечает текущее состояние как "всплывающее": при входе в него
+     * родительский автомат перейдет в указанное состояние.
+     * Имеет смысл только для автоматов, используемых в качестве подсостояний.
+     * Наличие состояния проверяется при сборке родительского автомата.
+     * 
+     * @param to Имя состояния родительского автомата.
+     */
+    public bubble(to: string): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.bubble = to;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает историю подсостояний для текущего состояния.
+     * При повторном входе в состояние подсостояния продолжат работу
+     * с последнего активного подсостояния (shallow) или со всего дерева
+     * последних активных подсостояний (deep).
+     * 
+     * @param type Тип истории.
+     */
+    public history(type: HistoryType | `${HistoryType}`): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.history = type as HistoryType;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает фабрику локального контекста текущего состояния.
+     * Контекст создается при каждом входе в состояние, доступен Группам onEnter/onExit
+     * через data.context и условиям переходов состояния, и удаляется при выходе из него.
+     * 
+     * @param factory Функция, создающая контекст из текущего состояния Store.
+     */
+    public context(factory: StateContextFactory<T>): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.context = factory;
+
+        return this;
+    }
+
     // ==================================== //
     //             TRANSITIONS              //
     // ==================================== //
@@ -185,17 +323,369 @@ export class FSMBuilder<T extends object> {
      * Добавляет переход в конфигурацию состояния.
      * 
      * @param to Имя состояния, в которое осуществляется переход.
+     * @param condition Условие перехода. Помимо текущего состояния Store получает предыдущее
+     * состояние и локальный контекст состояния четвертым аргументом.
+     * @param priority Приоритет перехода. Переходы с большим приоритетом проверяются раньше.
+     * Необязательный параметр, по-умолчанию 0.
+     */
+    public transition(to: S, condition: TransitionCondition<T, E>, priority?: number): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to,
+            condition,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет переход в конфигурацию состояния перед указанным переходом.
+     * Новый переход получает приоритет указанного перехода.
+     * 
+     * @param before Имя состояния, переход в которое должен проверяться после нового.
+     * @param to Имя состояния, в которое осуществляется переход.
+     * @param condition Условие перехода.
+     */
+    public transitionBefore(before: S, to: S, condition: TransitionCondition<T, E>): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transitions = this._editedState.transitions || [];
+        const index = transitions.findIndex(t => t.to === before && !t.event);
+        if(index === -1) {
+            throw new Error('Transition to ' + before + ' does not exist in state ' + this._editedState.name + '!');
+        }
+
+        const transition: TransitionConfig<T, S, E> = { to, condition, priority: transitions[index].priority };
+        transitions.splice(index, 0, transition);
+        this._editedTransition = transition;
+        this._editedState.transitions = transitions;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет переход в конфигурацию состояния после указанного перехода.
+     * Новый переход получает приоритет указанного перехода.
+     * 
+     * @param after Имя состояния, переход в которое должен проверяться раньше нового.
+     * @param to Имя состояния, в которое осуществляется переход.
      * @param condition Условие перехода.
      */
-    public transition(to: string, condition: (state: T) => boolean): this {
+    public transitionAfter(after: S, to: S, condition: TransitionCondition<T, E>): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
 
-        this._editedState.transitions?.push({
+        const transitions = this._editedState.transitions || [];
+        const index = transitions.findIndex(t => t.to === after && !t.event);
+        if(index === -1) {
+            throw new Error('Transition to ' + after + ' does not exist in state ' + this._editedState.name + '!');
+        }
+
+        const transition: TransitionConfig<T, S, E> = { to, condition, priority: transitions[index].priority };
+        transitions.splice(index + 1, 0, transition);
+        this._editedTransition = transition;
+        this._editedState.transitions = transitions;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет переход по событию в конфигурацию состояния.
+     * Переход срабатывает при вызове FSM.send() с указанным событием.
+     * 
+     * @param event Имя события.
+     * @param to Имя состояния, в которое осуществляется переход.
+     * @param guard Дополнительное условие перехода, получающее полезную нагрузку события
+     * и локальный контекст состояния. Необязательный параметр.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public on<P = any>(
+        event: E, 
+        to: S, 
+        guard?: (state: T, payload: P, context: unknown) => boolean, 
+        priority?: number
+    ): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
             to,
-            condition
-        });
+            event,
+            condition: (state, _, fsmEvent, context) => guard ? guard(state, fsmEvent?.payload, context) : true,
+            guard,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет отложенный переход в конфигурацию состояния.
+     * Переход срабатывает через указанное время после входа в состояние,
+     * если автомат все еще находится в нем. Таймер отменяется при выходе из состояния.
+     * 
+     * @param ms Задержка перехода в миллисекундах.
+     * @param to Имя состояния, в которое осуществляется переход.
+     * @param guard Дополнительное условие перехода, проверяемое по срабатыванию таймера.
+     * Вторым аргументом получает локальный контекст состояния. Необязательный параметр.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public after(ms: number, to: S, guard?: (state: T, context: unknown) => boolean, priority?: number): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to,
+            delay: ms,
+            condition: (state, _, __, context) => guard ? guard(state, context) : true,
+            guard,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет переход по завершению в конфигурацию состояния.
+     * Переход срабатывает, когда подсостояния и все регионы состояния достигли финального состояния.
+     * 
+     * @param to Имя состояния, в которое осуществляется переход.
+     * @param guard Дополнительное условие перехода. Необязательный параметр.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public onDone(to: S, guard?: (state: T, context: unknown) => boolean, priority?: number): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to,
+            done: true,
+            condition: (state, _, __, context) => guard ? guard(state, context) : true,
+            guard,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет внешний переход в текущее состояние.
+     * Автомат выходит из состояния и входит в него заново: выполняются onExit и onEnter,
+     * перезапускаются подсостояния, отложенные переходы и локальный контекст.
+     * 
+     * @param condition Условие перехода.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public reenter(condition: TransitionConfig<T, S, E>['condition'], priority?: number): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to: this._editedState.name,
+            type: TransitionType.External,
+            condition,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет внутренний переход по условию Store.
+     * Автомат не покидает текущее состояние и выполняет только указанные Группы Систем или цепочку.
+     * 
+     * @param condition Условие перехода.
+     * @param actions Группы Систем или цепочка внутреннего перехода.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public internal(
+        condition: TransitionConfig<T, S, E>['condition'], 
+        actions: StateAction<T, S>, 
+        priority?: number
+    ): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to: this._editedState.name,
+            type: TransitionType.Internal,
+            condition,
+            actions,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет внутренний переход по событию.
+     * Автомат не покидает текущее состояние и выполняет только указанные Группы Систем или цепочку.
+     * 
+     * @param event Имя события.
+     * @param actions Группы Систем или цепочка внутреннего перехода.
+     * @param guard Дополнительное условие перехода. Необязательный параметр.
+     * @param priority Приоритет перехода. Необязательный параметр, по-умолчанию 0.
+     */
+    public internalOn<P = any>(
+        event: E, 
+        actions: StateAction<T, S>, 
+        guard?: (state: T, payload: P, context: unknown) => boolean, 
+        priority?: number
+    ): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        const transition: TransitionConfig<T, S, E> = {
+            to: this._editedState.name,
+            type: TransitionType.Internal,
+            event,
+            condition: (state, _, fsmEvent, context) => guard ? guard(state, fsmEvent?.payload, context) : true,
+            guard,
+            actions,
+            priority
+        };
+
+        this._editedState.transitions?.push(transition);
+        this._editedTransition = transition;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Задает селекторы частей Store, от которых зависит условие последнего добавленного перехода.
+     * Если селекторы заданы у всех переходов состояния по условиям Store, автомат не проверяет
+     * условия при изменениях Store, не затронувших выбранные части.
+     * 
+     * @param selectors Селекторы частей Store.
+     */
+    public select(...selectors: ((state: T) => unknown)[]): this {
+        if(!this._editedTransition) {
+            throw new Error('Transition is not edited');
+        }
+
+        this._editedTransition.selectors = selectors;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Задает имя и описание последнего добавленного перехода.
+     * Имя выводится подписью перехода на диаграммах, описание используется, если имя не задано.
+     * 
+     * @param name Короткое имя перехода или его условия.
+     * @param description Описание перехода.
+     */
+    public label(name: string, description?: string): this {
+        if(!this._editedTransition) {
+            throw new Error('Transition is not edited');
+        }
+
+        this._editedTransition.name = name;
+        this._editedTransition.description = description;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Добавляет Группы Систем к последнему добавленному переходу.
+     * Группы выполняются после onExit исходного состояния и до onEnter нового.
+     * 
+     * @param groups Группы Систем перехода.
+     */
+    public do(...groups: GroupType<any>[]): this {
+        if(!this._editedTransition) {
+            throw new Error('Transition is not edited');
+        }
+
+        const actions = this._editedTransition.actions || [];
+        if(typeof actions === 'function') {
+            throw new Error('Actions of transition to ' + this._editedTransition.to + ' has both chains and groups!');
+        }
+
+        this._editedTransition.actions = [...actions, ...groups];
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает цепочку Систем для последнего добавленного перехода.
+     * Цепочка выполняется после onExit исходного состояния и до onEnter нового.
+     * 
+     * @param action Функция, добавляющая Системы в цепочку.
+     */
+    public doChain(action: (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void): this {
+        if(!this._editedTransition) {
+            throw new Error('Transition is not edited');
+        }
+
+        if(Array.isArray(this._editedTransition.actions) && this._editedTransition.actions.length) {
+            throw new Error('Actions of transition to ' + this._editedTransition.to + ' has both chains and groups!');
+        }
+
+        this._editedTransition.actions = action;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Удаляет переходы по событию из конфигурации состояния.
+     * 
+     * @param event Имя события.
+     * @param to Имя состояния, в которое осуществляется переход. Необязательный параметр,
+     * по-умолчанию удаляются все переходы по событию.
+     */
+    public off(event: E, to?: S): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.transitions = this._editedState.transitions?.filter(
+            t => t.event !== event || (to !== undefined && t.to !== to)
+        );
 
         return this;
     }
@@ -206,7 +696,7 @@ export class FSMBuilder<T extends object> {
      * 
      * @param to Имя состояния, в которое осуществляется переход.
      */
-    public removeTransition(to: string): this {
+    public removeTransition(to: S): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
@@ -223,12 +713,33 @@ export class FSMBuilder<T extends object> {
      * @param to Имя состояния, в которое осуществляется переход.
      * @param condition Новое условие перехода.
      */
-    public replaceTransition(to: string, condition: (state: T) => boolean): this {
+    public replaceTransition(to: S, condition: TransitionConfig<T, S, E>['condition']): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.transitions = this._editedState.transitions?.map(
+            t => t.to === to && !t.event ? { ...t, condition } : t
+        );
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает стратегию перехода для текущего состояния.
+     * 
+     * @param strategy Стратегия перехода или функция, возвращающая стратегию 
+     * на основе контекста перехода.
+     */
+    public transitionStrategy(
+        strategy: TransitionStrategy | ((context: TransitionContext<T, S>) => TransitionStrategy)
+    ): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
 
-        this._editedState.transitions = this._editedState.transitions?.map(t => t.to === to ? { to, condition } : t);
+        this._editedState.transitionStrategy = strategy;
 
         return this;
     }
@@ -244,7 +755,7 @@ export class FSMBuilder<T extends object> {
      * @param action Действие, которое будет добавлено в конфигурацию состояния.
      */
     public onEnterChain(
-        action: (chain: SystemChain, data: IStateLifeCycleData<T>) => void
+        action: (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void
     ): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
@@ -261,7 +772,7 @@ export class FSMBuilder<T extends object> {
      * @param action Действие, которое будет добавлено в конфигурацию состояния.
      */
     public onExitChain(
-        action: (chain: SystemChain, data: IStateLifeCycleData<T>) => void
+        action: (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void
     ): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
@@ -305,7 +816,7 @@ export class FSMBuilder<T extends object> {
      * 
      * @param action Новое действие, которое будет добавлено в конфигурацию состояния.
      */
-    public replaceOnEnterChain(action: (chain: SystemChain, data: IStateLifeCycleData<T>) => void): this {
+    public replaceOnEnterChain(action: (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
@@ -320,7 +831,7 @@ export class FSMBuilder<T extends object> {
      * 
      * @param action Новое действие, которое будет добавлено в конфигурацию состояния.
      */
-    public replaceOnExitChain(action: (chain: SystemChain, data: IStateLifeCycleData<T>) => void): this {
+    public replaceOnExitChain(action: (chain: SystemChain, data: IStateLifeCycleData<T, S>) => void): this {
         if(!this._editedState) {
             throw new Error('State is not edited');
         }
@@ -577,6 +1088,179 @@ export class FSMBuilder<T extends object> {
         return this;
     }
 
+    // ==================================== //
+    //             ERRORS                   //
+    // ==================================== //
+
+    /**
+     * @description
+     * Устанавливает политику обработки ошибок для текущего состояния.
+     * 
+     * @param policy Политика обработки ошибок в Группах Систем onEnter состояния.
+     */
+    public errorPolicy(policy: ErrorPolicy): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.errorPolicy = policy;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает состояние ошибки для текущего состояния и политику ErrorPolicy.ErrorState.
+     * 
+     * @param state Имя состояния, в которое автомат перейдет при ошибке.
+     */
+    public errorState(state: S): this {
+        if(!this._editedState) {
+            throw new Error('State is not edited');
+        }
+
+        this._editedState.errorState = state;
+        this._editedState.errorPolicy = ErrorPolicy.ErrorState;
+
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает политику обработки ошибок для всех состояний FSM.
+     * 
+     * @param policy Политика обработки ошибок.
+     */
+    public defaultErrorPolicy(policy: ErrorPolicy): this {
+        this._config.errorPolicy = policy;
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает состояние ошибки для всех состояний FSM и политику ErrorPolicy.ErrorState.
+     * 
+     * @param state Имя состояния, в которое автомат перейдет при ошибке.
+     */
+    public defaultErrorState(state: S): this {
+        this._config.errorState = state;
+        this._config.errorPolicy = ErrorPolicy.ErrorState;
+        return this;
+    }
+
+    // ==================================== //
+    //             HOOKS                    //
+    // ==================================== //
+
+    /**
+     * @description
+     * Устанавливает глобальные хуки FSM.
+     * 
+     * @param hooks Хуки onEnter, onExit и onError.
+     */
+    public hooks(hooks: IHooksConfig<T, S>): this {
+        this._config.hooks = hooks;
+        return this;
+    }
+
+    // ==================================== //
+    //             CLOCK                    //
+    // ==================================== //
+
+    /**
+     * @description
+     * Устанавливает часы, по которым отсчитываются отложенные переходы.
+     * 
+     * @param clock Часы, например ManualClock для управления временем из игрового цикла.
+     */
+    public clock(clock: IClock): this {
+        this._config.clock = clock;
+        return this;
+    }
+
+    // ==================================== //
+    //             QUEUE                    //
+    // ==================================== //
+
+    /**
+     * @description
+     * Устанавливает политику очереди изменений Store, по которым проверяются переходы.
+     * 
+     * @param policy Политика очереди: все изменения по порядку, только последнее
+     * или отбрасывание изменений во время перехода.
+     */
+    public queuePolicy(policy: QueuePolicy): this {
+        this._config.queuePolicy = policy;
+        return this;
+    }
+
+    // ==================================== //
+    //             DEPENDENCIES             //
+    // ==================================== //
+
+    /**
+     * @description
+     * Устанавливает ExecutionController, которым будут запускаться Группы Систем автомата.
+     * По-умолчанию используется ExecutionController из ServiceContainer.
+     * 
+     * @param controller ExecutionController.
+     */
+    public executionController(controller: IExecutionControllerLike): this {
+        this._config.executionController = controller;
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает контейнер, в котором регистрируются Группы цепочек onEnter/onExit.
+     * По-умолчанию используется GroupsContainer из ServiceContainer.
+     * 
+     * @param container Контейнер Групп.
+     */
+    public groupsContainer(container: IGroupsContainerLike): this {
+        this._config.groupsContainer = container;
+        return this;
+    }
+
+    // ==================================== //
+    //             DEBUG                    //
+    // ==================================== //
+
+    /**
+     * @description
+     * Включает режим разработки, в котором автомат предупреждает
+     * о нескольких одновременно выполнимых переходах.
+     * 
+     * @param value Включен ли режим разработки. По-умолчанию true.
+     */
+    public devMode(value: boolean = true): this {
+        this._config.devMode = value;
+        return this;
+    }
+
+    /**
+     * @description
+     * Устанавливает максимальное количество записей в истории переходов.
+     * 
+     * @param value Максимальное количество записей.
+     */
+    public historyLimit(value: number): this {
+        this._config.historyLimit = value;
+        return this;
+    }
+
+    /**
+     * @description
+     * Включает строгий режим, в котором build() выбрасывает ошибку
+     * при любой проблеме, найденной статическим анализом, включая предупреждения.
+     * 
+     * @param value Включен ли строгий режим. По-умолчанию true.
+     */
+    public strict(value: boolean = true): this {
+        this._strict = value;
+        return this;
+    }
+
     // ==================================== //
     //             BUILD                    //
     // ==================================== //
@@ -587,48 +1271,79 @@ export class FSMBuilder<T extends object> {
      * 
      * @returns Инстанс FSM.
      */
-    public build(): IFSM<T> {
-        const executionController = ServiceContainer.instance.get(ExecutionController);
+    public build(): IFSM<T, S, E> {
+        const config = this.buildConfig();
+        const executionController = config.executionController ?? ServiceContainer.instance.get(ExecutionController);
 
+        return new FSM(executionController, config);
+    }
+
+    /**
+     * @description
+     * Проверяет и собирает конфигурацию FSM без создания автомата.
+     * 
+     * @returns Конфигурация FSM.
+     */
+    public buildConfig(): IFSMConfig<T, S, E> {
         this.validateInitialState();
         this.validateTransitions();
+        this.validateErrorStates();
+        this.validateGraph();
 
         this._config.states.forEach(state => {
             this.buildOnEnterActions(state);
             this.buildOnExitActions(state);
         });
 
-        return new FSM(executionController, this._config);
+        return this._config;
     }
 
-    private buildOnEnterActions(state: IStateConfig<T>): void {
-        state.onEnter = [];
-
-        const chain = this._onEnterChains.get(state.name);
-        if(chain) state.onEnter = chain;
-
-        const groups = this._onEnterGroups.get(state.name)?.map(item => item.action);
-
-        if(chain && groups) {
-            throw new Error('OnEnter actions for state ' + state.name + ' has both chains and groups!');
-        }
+    /**
+     * @description
+     * Выполняет статический анализ графа состояний: недостижимые и тупиковые состояния,
+     * дублирующиеся переходы, одновременное использование цепочки и Групп, несовпадение Store подсостояний.
+     * 
+     * @returns Отчет анализа.
+     */
+    public analyze(): IFSMAnalysisReport<S> {
+        const issues = [
+            ...this.findActionsConflicts(),
+            ...new FSMAnalyzer(this._config).analyze().issues
+        ];
 
-        if(groups) state.onEnter = groups as StateAction<T>;
+        return FSMAnalyzer.report(this._config.name, issues);
     }
 
-    private buildOnExitActions(state: IStateConfig<T>): void {
-        state.onExit = [];
+    private findActionsConflicts(): IFSMAnalysisIssue<S>[] {
+        const lifecycles = [
+            { name: 'OnEnter', chains: this._onEnterChains, groups: this._onEnterGroups },
+            { name: 'OnExit', chains: this._onExitChains, groups: this._onExitGroups }
+        ];
+
+        return this._config.states.flatMap(state => lifecycles
+            .filter(lifecycle => lifecycle.chains.has(state.name) && lifecycle.groups.has(state.name))
+            .map(lifecycle => ({
+                type: AnalysisIssueType.ActionsConflict,
+                severity: AnalysisSeverity.Error,
+                state: state.name,
+                message: lifecycle.name + ' actions for state ' + state.name + ' has both chains and groups!'
+            }))
+        );
+    }
 
-        const chain = this._onExitChains.get(state.name);
-        if(chain) state.onExit = chain;
+    /**
+     * @description
+     * Собирает действия onEnter состояния. Одновременное использование цепочки и Групп
+     * отклоняется раньше, в validateGraph().
+     */
+    private buildOnEnterActions(state: IStateConfig<T, S, E>): void {
+        const groups = this._onEnterGroups.get(state.name)?.map(item => item.action);
+        state.onEnter = this._onEnterChains.get(state.name) ?? (groups as StateAction<T, S>) ?? [];
+    }
 
+    private buildOnExitActions(state: IStateConfig<T, S, E>): void {
         const groups = this._onExitGroups.get(state.name)?.map(item => item.action);
-
-        if(chain && groups) {
-            throw new Error('OnExit actions for state ' + state.name + ' has both chains and groups!');
-        }
-
-        if(groups) state.onExit = groups as StateAction<T>;
+        state.onExit = this._onExitChains.get(state.name) ?? (groups as StateAction<T, S>) ?? [];
     }
 
     private validateInitialState(): void {
@@ -655,4 +1370,32 @@ export class FSMBuilder<T extends object> {
             }
         }
     }
+
+    private validateGraph(): void {
+        const report = this.analyze();
+        const issues = this._strict 
+            ? report.issues 
+            : report.issues.filter(issue => issue.severity === AnalysisSeverity.Error);
+
+        if(issues.length) {
+            throw new Error('FSM ' + this._config.name + ' is invalid:\n' + issues.map(issue => issue.message).join('\n'));
+        }
+
+        if(this._config.devMode) {
+            report.issues.forEach(issue => console.warn('[FSM ' + this._config.name + '] ' + issue.message));
+        }
+    }
+
+    private validateErrorStates(): void {
+        const errorStates = [
+            this._config.errorState,
+            ...this._config.states.map(state => state.errorState)
+        ];
+
+        errorStates.forEach(errorState => {
+            if(errorState && !this._config.states.find(s => s.name === errorState)) {
+                throw new Error('State ' + errorState + ' cannot be error state, because it does not exist!');
+            }
+        });
+    }
 }
\ No newline at end of file
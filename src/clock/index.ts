@@ -0,0 +1,3 @@
+export * from './models';
+export * from './system-clock';
+export * from './manual-clock';
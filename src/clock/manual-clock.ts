@@ -0,0 +1,98 @@
+import { IClock } from "./models";
+
+/**
+ * @description
+ * Часы, время в которых продвигается вручную через tick().
+ * Позволяют детерминированно управлять отложенными переходами
+ * из игрового цикла или в тестах.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const clock = new ManualClock();
+ * builder.clock(clock);
+ * 
+ * // В игровом цикле
+ * clock.tick(deltaTime);
+ * 
+ * // В тестах
+ * await clock.tick(1000);
+ * ```
+ */
+export class ManualClock implements IClock {
+
+    /**
+     * @description
+     * Текущее время часов в миллисекундах.
+     */
+    public get now(): number {
+        return this._now;
+    }
+
+    private _now: number = 0;
+    private _nextId: number = 1;
+    private _timers: Map<number, { at: number, callback: () => unknown }> = new Map();
+    private _tick: Promise<void> = Promise.resolve();
+
+    /**
+     * @description
+     * Регистрирует callback, который будет вызван, когда время часов продвинется на ms.
+     */
+    public setTimeout(callback: () => unknown, ms: number): unknown {
+        const id = this._nextId++;
+        this._timers.set(id, { at: this._now + ms, callback });
+        return id;
+    }
+
+    /**
+     * @description
+     * Отменяет таймер.
+     */
+    public clearTimeout(handle: unknown): void {
+        this._timers.delete(handle as number);
+    }
+
+    /**
+     * @description
+     * Продвигает время часов и вызывает сработавшие таймеры в порядке их срабатывания.
+     * Асинхронные callback'и ожидаются, поэтому таймеры, зарегистрированные во время tick
+     * (например, отложенные переходы состояния, в которое автомат перешел по таймеру),
+     * тоже срабатывают, если укладываются в ms.
+     * Вызовы tick, сделанные до завершения предыдущего, выполняются по очереди,
+     * поэтому в игровом цикле результат можно не ожидать.
+     * 
+     * @param ms Количество миллисекунд.
+     */
+    public tick(ms: number): Promise<void> {
+        const tick = this._tick.then(() => this.advance(ms));
+        this._tick = tick.catch(() => {});
+        return tick;
+    }
+
+    private async advance(ms: number): Promise<void> {
+        const target = this._now + ms;
+
+        let next = this.getNextTimer(target);
+        while(next) {
+            const [id, timer] = next;
+            this._timers.delete(id);
+            this._now = timer.at;
+            await timer.callback();
+
+            next = this.getNextTimer(target);
+        }
+
+        this._now = target;
+    }
+
+    private getNextTimer(until: number): [number, { at: number, callback: () => unknown }] | null {
+        let next: [number, { at: number, callback: () => unknown }] | null = null;
+
+        for(const entry of this._timers) {
+            if(entry[1].at > until) continue;
+            if(!next || entry[1].at < next[1].at) next = entry;
+        }
+
+        return next;
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Часы, по которым автомат отсчитывает отложенные переходы.
+ * Позволяют подменить реальные таймеры, например, тиком игрового цикла или в тестах.
+ */
+export interface IClock {
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
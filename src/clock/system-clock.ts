@@ -0,0 +1,25 @@
+import { IClock } from "./models";
+
+/**
+ * @description
+ * Часы на основе стандартных таймеров setTimeout/clearTimeout.
+ * Используются автоматом по-умолчанию.
+ */
+export class SystemClock implements IClock {
+
+    /**
+     * @description
+     * Вызывает callback через указанное количество миллисекунд.
+     */
+    public setTimeout(callback: () => void, ms: number): unknown {
+        return setTimeout(callback, ms);
+    }
+
+    /**
+     * @description
+     * Отменяет таймер.
+     */
+    public clearTimeout(handle: unknown): void {
+        clearTimeout(handle as ReturnType<typeof setTimeout>);
+    }
+}
@@ -0,0 +1,148 @@
+import { IFSM, IFSMConfig, TransitionType } from "../fsm/";
+import { FSMBuilder } from "../builder/";
+import { IStoreAdapter } from "../store-adapter/";
+import { DefinitionRegistry } from "./definition-registry";
+import { DefinitionCondition, IFSMDefinition, IFSMDefinitionLoadOptions, IStateDefinition, ITransitionDefinition } from "./models";
+
+/**
+ * @description
+ * Загрузчик сериализуемого описания автомата.
+ * Разрешает идентификаторы условий, селекторов и Групп Систем через DefinitionRegistry
+ * и собирает автомат через FSMBuilder, поэтому конфигурация совпадает с конфигурацией билдера.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const loader = new FSMDefinitionLoader<IGlobalStore>(registry);
+ * const fsm = loader.build(JSON.parse(json), store);
+ * ```
+ * 
+ * Контроллер, контейнер Групп и часы из параметров передаются и вложенным автоматам подсостояний и регионов.
+ * 
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export class FSMDefinitionLoader<T extends object, S extends string = string, E extends string = string> {
+
+    constructor(
+        private _registry: DefinitionRegistry,
+        private _options: IFSMDefinitionLoadOptions = {}
+    ) {}
+
+    /**
+     * @description
+     * Создает билдер по описанию автомата. Позволяет дополнить описание в коде перед сборкой.
+     * 
+     * @param definition Описание автомата.
+     * @param store Store автомата и его подсостояний.
+     */
+    public toBuilder(definition: IFSMDefinition<S, E>, store: IStoreAdapter<T>): FSMBuilder<T, S, E> {
+        const builder = new FSMBuilder<T, S, E>(definition.name, store);
+
+        builder.initialState(definition.initialState);
+        definition.devMode !== undefined && builder.devMode(definition.devMode);
+        definition.historyLimit !== undefined && builder.historyLimit(definition.historyLimit);
+        definition.errorPolicy && builder.defaultErrorPolicy(definition.errorPolicy);
+        definition.errorState && builder.defaultErrorState(definition.errorState);
+        definition.queuePolicy && builder.queuePolicy(definition.queuePolicy);
+        this._options.executionController && builder.executionController(this._options.executionController);
+        this._options.groupsContainer && builder.groupsContainer(this._options.groupsContainer);
+        this._options.clock && builder.clock(this._options.clock);
+
+        definition.states.forEach(state => this.loadState(builder, state, store));
+
+        return builder;
+    }
+
+    /**
+     * @description
+     * Создает конфигурацию автомата по описанию.
+     * 
+     * @param definition Описание автомата.
+     * @param store Store автомата и его подсостояний.
+     */
+    public load(definition: IFSMDefinition<S, E>, store: IStoreAdapter<T>): IFSMConfig<T, S, E> {
+        return this.toBuilder(definition, store).buildConfig();
+    }
+
+    /**
+     * @description
+     * Создает автомат по описанию.
+     * 
+     * @param definition Описание автомата.
+     * @param store Store автомата и его подсостояний.
+     */
+    public build(definition: IFSMDefinition<S, E>, store: IStoreAdapter<T>): IFSM<T, S, E> {
+        return this.toBuilder(definition, store).build();
+    }
+
+    private loadState(builder: FSMBuilder<T, S, E>, state: IStateDefinition<S, E>, store: IStoreAdapter<T>): void {
+        builder.state(state.name);
+
+        state.final && builder.final();
+        state.bubble && builder.bubble(state.bubble);
+        state.history && builder.history(state.history);
+        state.context && builder.context(this._registry.getContext(state.context));
+        state.transitionStrategy && builder.transitionStrategy(state.transitionStrategy);
+        state.errorPolicy && builder.errorPolicy(state.errorPolicy);
+        state.errorState && builder.errorState(state.errorState);
+        state.subStates && builder.subStates(this.buildChild(state.subStates, store));
+        state.regions?.forEach(region => builder.region(this.buildChild(region, store)));
+        state.onEnter?.forEach(id => builder.onEnterGroup(this._registry.getGroup(id), id));
+        state.onExit?.forEach(id => builder.onExitGroup(this._registry.getGroup(id), id));
+
+        state.transitions?.forEach(transition => this.loadTransition(builder, state.name, transition));
+    }
+
+    private buildChild(definition: IFSMDefinition, store: IStoreAdapter<T>): IFSM<T> {
+        return new FSMDefinitionLoader<T>(this._registry, this._options).build(definition, store);
+    }
+
+    private loadTransition(builder: FSMBuilder<T, S, E>, from: S, transition: ITransitionDefinition<S, E>): void {
+        const condition = transition.condition ? this._registry.getCondition(transition.condition) : undefined;
+
+        if(transition.type === TransitionType.Internal) {
+            this.loadInternalTransition(builder, from, transition, condition);
+        } else if(transition.event) {
+            builder.on(transition.event, transition.to, condition, transition.priority);
+        } else if(transition.delay !== undefined) {
+            builder.after(transition.delay, transition.to, condition, transition.priority);
+        } else if(transition.done) {
+            builder.onDone(transition.to, condition, transition.priority);
+        } else {
+            if(!condition) {
+                throw new Error('Transition from ' + from + ' to ' + transition.to + ' has no condition!');
+            }
+
+            transition.type === TransitionType.External && transition.to === from
+                ? builder.reenter(condition, transition.priority)
+                : builder.transition(transition.to, condition, transition.priority);
+        }
+
+        transition.type !== TransitionType.Internal && transition.actions?.length 
+            && builder.do(...transition.actions.map(id => this._registry.getGroup(id)));
+        transition.selectors && builder.select(...transition.selectors.map(id => this._registry.getSelector(id)));
+        (transition.name || transition.description) && builder.label(transition.name || '', transition.description);
+    }
+
+    private loadInternalTransition(
+        builder: FSMBuilder<T, S, E>, 
+        from: S, 
+        transition: ITransitionDefinition<S, E>, 
+        condition?: DefinitionCondition
+    ): void {
+        const actions = (transition.actions || []).map(id => this._registry.getGroup(id));
+
+        if(transition.event) {
+            builder.internalOn(transition.event, actions, condition, transition.priority);
+            return;
+        }
+
+        if(!condition) {
+            throw new Error('Internal transition in ' + from + ' has no condition!');
+        }
+
+        builder.internal(condition, actions, transition.priority);
+    }
+}
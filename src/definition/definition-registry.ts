@@ -0,0 +1,124 @@
+import { GroupType } from "empress-core";
+import { DefinitionCondition, DefinitionContext, DefinitionSelector } from "./models";
+
+/**
+ * @description
+ * Реестр условий, селекторов, фабрик контекста и Групп Систем, на которые ссылается
+ * сериализуемое описание автомата.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const registry = new DefinitionRegistry()
+ *     .condition('connected', state => state.connected)
+ *     .group('LoadAssetsGroup', LoadAssetsGroup);
+ * ```
+ */
+export class DefinitionRegistry {
+    private _conditions: Map<string, DefinitionCondition> = new Map();
+    private _selectors: Map<string, DefinitionSelector> = new Map();
+    private _contexts: Map<string, DefinitionContext> = new Map();
+    private _groups: Map<string, GroupType<any>> = new Map();
+
+    /**
+     * @description
+     * Регистрирует условие перехода.
+     * 
+     * @param id Идентификатор условия.
+     * @param condition Условие перехода.
+     */
+    public condition(id: string, condition: DefinitionCondition): this {
+        this._conditions.set(id, condition);
+        return this;
+    }
+
+    /**
+     * @description
+     * Регистрирует селектор части Store.
+     * 
+     * @param id Идентификатор селектора.
+     * @param selector Селектор.
+     */
+    public selector(id: string, selector: DefinitionSelector): this {
+        this._selectors.set(id, selector);
+        return this;
+    }
+
+    /**
+     * @description
+     * Регистрирует фабрику локального контекста состояния.
+     * 
+     * @param id Идентификатор фабрики.
+     * @param factory Фабрика контекста.
+     */
+    public context(id: string, factory: DefinitionContext): this {
+        this._contexts.set(id, factory);
+        return this;
+    }
+
+    /**
+     * @description
+     * Регистрирует Группу Систем.
+     * 
+     * @param id Идентификатор Группы.
+     * @param group Группа Систем.
+     */
+    public group(id: string, group: GroupType<any>): this {
+        this._groups.set(id, group);
+        return this;
+    }
+
+    public getCondition(id: string): DefinitionCondition {
+        return this.get(this._conditions, 'Condition', id);
+    }
+
+    public getSelector(id: string): DefinitionSelector {
+        return this.get(this._selectors, 'Selector', id);
+    }
+
+    public getContext(id: string): DefinitionContext {
+        return this.get(this._contexts, 'Context', id);
+    }
+
+    public getGroup(id: string): GroupType<any> {
+        return this.get(this._groups, 'Group', id);
+    }
+
+    /**
+     * @description
+     * Возвращает идентификатор зарегистрированного условия.
+     * Выбрасывает ошибку, если условие не зарегистрировано.
+     */
+    public getConditionId(condition: DefinitionCondition): string {
+        return this.getId(this._conditions, 'Condition', condition);
+    }
+
+    public getSelectorId(selector: DefinitionSelector): string {
+        return this.getId(this._selectors, 'Selector', selector);
+    }
+
+    public getContextId(factory: DefinitionContext): string {
+        return this.getId(this._contexts, 'Context', factory);
+    }
+
+    public getGroupId(group: GroupType<any>): string {
+        return this.getId(this._groups, 'Group', group);
+    }
+
+    private get<V>(map: Map<string, V>, kind: string, id: string): V {
+        const value = map.get(id);
+        if(!value) {
+            throw new Error(kind + ' ' + id + ' is not registered!');
+        }
+
+        return value;
+    }
+
+    private getId<V extends { name: string }>(map: Map<string, V>, kind: string, value: V): string {
+        for(const [id, registered] of map) {
+            if(registered === value) return id;
+        }
+
+        throw new Error(kind + ' ' + (value.name || 'anonymous') + ' is not registered!');
+    }
+}
@@ -0,0 +1,107 @@
+import { IFSM, IFSMConfig, IStateConfig, StateAction, TransitionConfig } from "../fsm/";
+import { DefinitionRegistry } from "./definition-registry";
+import { IFSMDefinition, IStateDefinition, ITransitionDefinition } from "./models";
+
+/**
+ * @description
+ * Экспортирует автомат, собранный через FSMBuilder, в сериализуемое описание.
+ * Все условия, селекторы и Группы Систем автомата должны быть зарегистрированы в DefinitionRegistry,
+ * иначе выбрасывается ошибка. Цепочки и функции выбора стратегии перехода не сериализуются.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const definition = new FSMDefinitionSerializer(registry).serialize(builder.build());
+ * const json = JSON.stringify(definition, null, 4);
+ * ```
+ */
+export class FSMDefinitionSerializer {
+
+    constructor(private _registry: DefinitionRegistry) {}
+
+    /**
+     * @description
+     * Создает описание автомата. Для построенного автомата настройки уровня
+     * IFSMConfig (devMode, historyLimit, политики ошибок и очереди) не экспортируются.
+     * 
+     * @param source Конфигурация автомата или автомат.
+     */
+    public serialize<S extends string, E extends string>(
+        source: IFSMConfig<any, S, E> | IFSM<any, S, E>
+    ): IFSMDefinition<S, E> {
+        if(source.states instanceof Map) {
+            return {
+                name: source.name,
+                initialState: source.initialState,
+                states: [...source.states.values()].map(state => this.serializeState(state))
+            };
+        }
+
+        const config = source as IFSMConfig<any, S, E>;
+
+        return {
+            name: config.name,
+            initialState: config.initialState,
+            states: config.states.map(state => this.serializeState(state)),
+            devMode: config.devMode,
+            historyLimit: config.historyLimit,
+            errorPolicy: config.errorPolicy,
+            errorState: config.errorState,
+            queuePolicy: config.queuePolicy
+        };
+    }
+
+    private serializeState<S extends string, E extends string>(state: IStateConfig<any, S, E>): IStateDefinition<S, E> {
+        if(typeof state.transitionStrategy === 'function') {
+            throw new Error('Transition strategy of state ' + state.name + ' cannot be serialized!');
+        }
+
+        return {
+            name: state.name,
+            transitions: state.transitions?.length 
+                ? state.transitions.map(transition => this.serializeTransition(transition)) 
+                : undefined,
+            subStates: state.subStates && this.serialize(state.subStates),
+            regions: state.regions?.map(region => this.serialize(region)),
+            final: state.final,
+            context: state.context && this._registry.getContextId(state.context),
+            onEnter: this.serializeActions(state.name, 'OnEnter', state.onEnter),
+            onExit: this.serializeActions(state.name, 'OnExit', state.onExit),
+            transitionStrategy: state.transitionStrategy,
+            bubble: state.bubble,
+            history: state.history,
+            errorPolicy: state.errorPolicy,
+            errorState: state.errorState
+        };
+    }
+
+    private serializeTransition<S extends string, E extends string>(
+        transition: TransitionConfig<any, S, E>
+    ): ITransitionDefinition<S, E> {
+        const isTriggered = transition.event !== undefined || transition.delay !== undefined || transition.done;
+        const condition = isTriggered ? transition.guard : transition.condition;
+
+        return {
+            to: transition.to,
+            condition: condition && this._registry.getConditionId(condition),
+            event: transition.event,
+            delay: transition.delay,
+            done: transition.done,
+            priority: transition.priority,
+            type: transition.type,
+            actions: this.serializeActions(transition.to, 'Transition', transition.actions),
+            selectors: transition.selectors?.map(selector => this._registry.getSelectorId(selector)),
+            name: transition.name || undefined,
+            description: transition.description
+        };
+    }
+
+    private serializeActions<S extends string>(state: S, lifecycle: string, actions?: StateAction<any, S>): string[] | undefined {
+        if(!actions) return undefined;
+        if(!Array.isArray(actions)) {
+            throw new Error(lifecycle + ' chain of state ' + state + ' cannot be serialized!');
+        }
+
+        return actions.length ? actions.map(group => this._registry.getGroupId(group)) : undefined;
+    }
+}
@@ -0,0 +1,4 @@
+export * from './models';
+export * from './definition-registry';
+export * from './definition-loader';
+export * from './definition-serializer';
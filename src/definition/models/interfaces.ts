@@ -0,0 +1,96 @@
+import { IClock } from '../../clock/';
+import { 
+    ErrorPolicy, 
+    HistoryType, 
+    IExecutionControllerLike, 
+    IGroupsContainerLike, 
+    QueuePolicy, 
+    TransitionStrategy, 
+    TransitionType 
+} from '../../fsm/';
+
+/**
+ * Сериализуемое описание автомата.
+ * Функции заменены идентификаторами, зарегистрированными в DefinitionRegistry.
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export interface IFSMDefinition<S extends string = string, E extends string = string> {
+    name: string;
+    initialState: S;
+    states: IStateDefinition<S, E>[];
+    devMode?: boolean;
+    historyLimit?: number;
+    errorPolicy?: ErrorPolicy;
+    errorState?: S;
+    queuePolicy?: QueuePolicy;
+}
+
+/**
+ * Сериализуемое описание состояния.
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export interface IStateDefinition<S extends string = string, E extends string = string> {
+    name: S;
+    transitions?: ITransitionDefinition<S, E>[];
+    subStates?: IFSMDefinition;
+    regions?: IFSMDefinition[];
+    final?: boolean;
+    /**
+     * Идентификатор фабрики локального контекста состояния.
+     */
+    context?: string;
+    /**
+     * Идентификаторы Групп Систем onEnter.
+     */
+    onEnter?: string[];
+    /**
+     * Идентификаторы Групп Систем onExit.
+     */
+    onExit?: string[];
+    transitionStrategy?: TransitionStrategy;
+    bubble?: string;
+    history?: HistoryType;
+    errorPolicy?: ErrorPolicy;
+    errorState?: S;
+}
+
+/**
+ * Сериализуемое описание перехода.
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export interface ITransitionDefinition<S extends string = string, E extends string = string> {
+    to: S;
+    /**
+     * Идентификатор условия. Обязателен для переходов по условиям Store,
+     * для переходов по событию, таймеру и завершению задает дополнительное условие.
+     */
+    condition?: string;
+    event?: E;
+    delay?: number;
+    done?: boolean;
+    priority?: number;
+    type?: TransitionType;
+    /**
+     * Идентификаторы Групп Систем перехода.
+     */
+    actions?: string[];
+    /**
+     * Идентификаторы селекторов частей Store.
+     */
+    selectors?: string[];
+    name?: string;
+    description?: string;
+}
+
+/**
+ * Параметры загрузки описания автомата.
+ * Применяются к автомату и ко всем его подсостояниям и регионам.
+ */
+export interface IFSMDefinitionLoadOptions {
+    executionController?: IExecutionControllerLike;
+    groupsContainer?: IGroupsContainerLike;
+    clock?: IClock;
+}
@@ -0,0 +1,16 @@
+/**
+ * Условие перехода, зарегистрированное в DefinitionRegistry.
+ * Для переходов по условиям Store получает текущее состояние Store,
+ * для переходов по событию - состояние Store и полезную нагрузку события.
+ */
+export type DefinitionCondition = (state: any, ...args: any[]) => boolean;
+
+/**
+ * Фабрика локального контекста состояния, зарегистрированная в DefinitionRegistry.
+ */
+export type DefinitionContext = (state: any) => object;
+
+/**
+ * Селектор части Store, зарегистрированный в DefinitionRegistry.
+ */
+export type DefinitionSelector = (state: any) => unknown;
@@ -0,0 +1,182 @@
+import { IStateConfig, TransitionConfig, TransitionType } from "../fsm/";
+import { DiagramSource } from "./models";
+
+interface IDiagramGraph {
+    name: string;
+    initialState: string;
+    states: IStateConfig<any, string, string>[];
+}
+
+/**
+ * @description
+ * Строит диаграмму Mermaid stateDiagram-v2 по конфигурации или построенному автомату.
+ * Диаграмма содержит начальное и финальные состояния, подсостояния и регионы,
+ * подписи переходов и имена Групп Систем onEnter.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const fsm = builder.build();
+ * fs.writeFileSync('global.mmd', toMermaid(fsm));
+ * ```
+ * 
+ * @param source Конфигурация автомата или автомат.
+ * @returns Текст диаграммы.
+ */
+export function toMermaid(source: DiagramSource): string {
+    return ['stateDiagram-v2', ...renderMermaidGraph(toGraph(source), '', 1)].join('\n');
+}
+
+/**
+ * @description
+ * Строит граф Graphviz DOT по конфигурации или построенному автомату.
+ * Подсостояния и регионы выводятся вложенными кластерами, внутренние переходы - пунктирными ребрами.
+ * 
+ * @param source Конфигурация автомата или автомат.
+ * @returns Текст графа.
+ */
+export function toDot(source: DiagramSource): string {
+    const graph = toGraph(source);
+
+    return [
+        'digraph ' + quote(graph.name) + ' {',
+        '    compound=true;',
+        '    node [shape=box, style=rounded];',
+        ...renderDotGraph(graph, '', 1),
+        '}'
+    ].join('\n');
+}
+
+function renderMermaidGraph(graph: IDiagramGraph, prefix: string, depth: number): string[] {
+    const indent = '    '.repeat(depth);
+    const lines: string[] = [indent + '[*] --> ' + toId(prefix, graph.initialState)];
+
+    graph.states.forEach(state => {
+        const id = toId(prefix, state.name);
+        const children = getChildren(state);
+
+        if(id !== state.name) lines.push(indent + 'state "' + state.name + '" as ' + id);
+
+        if(children.length) {
+            lines.push(indent + 'state ' + id + ' {');
+            children.forEach((child, index) => {
+                if(index > 0) lines.push(indent + '    --');
+                lines.push(...renderMermaidGraph(child, getChildPrefix(id, index, children.length), depth + 1));
+            });
+            lines.push(indent + '}');
+        }
+
+        const groups = getGroupNames(state);
+        if(groups.length) lines.push(indent + id + ' : ' + groups.join(', '));
+
+        (state.transitions || []).forEach(transition => {
+            const label = getLabel(transition);
+            lines.push(indent + id + ' --> ' + toId(prefix, transition.to) + (label ? ' : ' + label : ''));
+        });
+
+        if(state.final) lines.push(indent + id + ' --> [*]');
+    });
+
+    return lines;
+}
+
+function renderDotGraph(graph: IDiagramGraph, prefix: string, depth: number): string[] {
+    const indent = '    '.repeat(depth);
+    const start = toId(prefix, '__start');
+    const lines: string[] = [
+        indent + quote(start) + ' [shape=point];',
+        indent + quote(start) + ' -> ' + quote(toId(prefix, graph.initialState)) + ';'
+    ];
+
+    graph.states.forEach(state => {
+        const id = toId(prefix, state.name);
+        const children = getChildren(state);
+        const groups = getGroupNames(state);
+        const label = groups.length ? state.name + '\\n' + groups.join(', ') : state.name;
+        const node = indent + quote(id) + ' [label=' + quote(label) + (state.final ? ', peripheries=2' : '') + '];';
+
+        if(children.length) {
+            lines.push(indent + 'subgraph ' + quote('cluster_' + id) + ' {');
+            lines.push(indent + '    label=' + quote(state.name) + ';');
+            lines.push('    ' + node);
+            children.forEach((child, index) => {
+                const childPrefix = getChildPrefix(id, index, children.length);
+                lines.push(indent + '    subgraph ' + quote('cluster_' + childPrefix) + ' {');
+                lines.push(indent + '        label=' + quote(child.name) + ';');
+                lines.push(...renderDotGraph(child, childPrefix, depth + 2));
+                lines.push(indent + '    }');
+            });
+            lines.push(indent + '}');
+        } else {
+            lines.push(node);
+        }
+
+        (state.transitions || []).forEach(transition => {
+            const label = getLabel(transition);
+            const attributes = [
+                ...(label ? ['label=' + quote(label)] : []),
+                ...(transition.type === TransitionType.Internal ? ['style=dashed'] : [])
+            ];
+            lines.push(
+                indent + quote(id) + ' -> ' + quote(toId(prefix, transition.to)) + 
+                (attributes.length ? ' [' + attributes.join(', ') + ']' : '') + ';'
+            );
+        });
+    });
+
+    return lines;
+}
+
+function toGraph(source: DiagramSource): IDiagramGraph {
+    const states = source.states instanceof Map ? [...source.states.values()] : source.states;
+    return { name: source.name, initialState: source.initialState, states };
+}
+
+function getChildren(state: IStateConfig<any, string, string>): IDiagramGraph[] {
+    return [...(state.subStates ? [state.subStates] : []), ...(state.regions || [])].map(child => toGraph(child));
+}
+
+/**
+ * @description
+ * Возвращает имена Групп Систем onEnter. Для цепочки возвращает 'chain'.
+ */
+function getGroupNames(state: IStateConfig<any, string, string>): string[] {
+    if(!state.onEnter) return [];
+    if(!Array.isArray(state.onEnter)) return ['chain'];
+
+    return state.onEnter.map(group => group.name);
+}
+
+/**
+ * @description
+ * Возвращает подпись перехода в нотации UML: триггер и имя условия в квадратных скобках.
+ * Внутренние переходы помечаются суффиксом (internal), чтобы отличаться от внешних переходов в то же состояние.
+ */
+function getLabel(transition: TransitionConfig<any, string, string>): string {
+    const title = transition.name || transition.description;
+    const trigger = transition.event ?? 
+        (transition.delay !== undefined ? 'after ' + transition.delay + 'ms' : undefined) ?? 
+        (transition.done ? 'done' : undefined);
+
+    const label = trigger && title ? trigger + ' [' + title + ']' : trigger || title || '';
+    const suffix = transition.type === TransitionType.Internal ? ' (internal)' : '';
+
+    return (label + suffix).trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * @description
+ * Возвращает префикс идентификаторов вложенного автомата.
+ * Регионы нумеруются, так как могут содержать состояния с одинаковыми именами.
+ */
+function getChildPrefix(id: string, index: number, count: number): string {
+    return id + '_' + (count > 1 ? index + '_' : '');
+}
+
+function toId(prefix: string, name: string): string {
+    return (prefix + name).replace(/[^\w]/g, '_');
+}
+
+function quote(value: string): string {
+    return '"' + value.replace(/"/g, '\\"') + '"';
+}
@@ -0,0 +1,11 @@
+import { IFSM, IFSMConfig } from '../../fsm/';
+
+/**
+ * Источник диаграммы: конфигурация автомата или построенный автомат.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export type DiagramSource<T extends object = any, S extends string = string, E extends string = string> = 
+    IFSMConfig<T, S, E> | 
+    IFSM<T, S, E>;
@@ -2,19 +2,19 @@ import { FSMBuilder } from "../builder";
 import { IFSM, IFSMConfig } from "../fsm";
 import { IStoreAdapter } from "../store-adapter";
 
-export abstract class FSMFactory<T extends Object> {
+export abstract class FSMFactory<T extends Object, S extends string = string, E extends string = string> {
 
-    protected _builder!: FSMBuilder<T>;
+    protected _builder!: FSMBuilder<T, S, E>;
 
-    public abstract setup(builder: FSMBuilder<T>): void;
+    public abstract setup(builder: FSMBuilder<T, S, E>): void;
 
-    public create(name: string, store: IStoreAdapter<T>): IFSM<T> {
-        this._builder = new FSMBuilder<T>(name, store);
+    public create(name: string, store: IStoreAdapter<T>): IFSM<T, S, E> {
+        this._builder = new FSMBuilder<T, S, E>(name, store);
         this.setup(this._builder);
         return this._builder.build();
     }
 
-    public getConfig(): IFSMConfig<T> {
+    public getConfig(): IFSMConfig<T, S, E> {
         return this._builder.config;
     }
 }
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { IFSM } from "../fsm";
+
+/**
+ * @description
+ * Реестр запущенных конечных автоматов.
+ * Хранит автоматы по имени, позволяет динамически создавать и удалять дочерние автоматы
+ * (например, по автомату на каждую сущность врага) и передавать между ними события.
+ * 
+ * Автомат, остановленный через stop() или завершившийся в финальном состоянии, удаляется из реестра
+ * вместе со всеми дочерними автоматами, созданными через spawn().
+ * Перезапуск автомата через start() или restore() его дочерние автоматы не затрагивает.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const registry = new FSMRegistry();
+ * registry.register(levelFSM);
+ * 
+ * await registry.spawn(
+ *     `enemy-${entity.uuid}`, 
+ *     name => new EnemyFSMFactory().create(name, enemyStore), 
+ *     levelFSM.name
+ * );
+ * 
+ * await registry.send(`enemy-${entity.uuid}`, 'HIT', { damage: 10 });
+ * ```
+ */
+export class FSMRegistry {
+
+    /**
+     * @description
+     * Возвращает зарегистрированные автоматы по именам.
+     */
+    public get machines(): Map<string, IFSM<any, any, any>> {
+        return new Map(this._machines);
+    }
+
+    private _machines: Map<string, IFSM<any, any, any>> = new Map();
+    private _children: Map<string, Set<string>> = new Map();
+    private _parents: Map<string, string> = new Map();
+    private _unsubscribes: Map<string, () => void> = new Map();
+
+    /**
+     * @description
+     * Регистрирует автомат в реестре.
+     * 
+     * @param fsm Регистрируемый автомат.
+     * @param parent Имя родительского автомата. Необязательный параметр.
+     * @throws Error если автомат с таким именем уже зарегистрирован или родитель не найден.
+     */
+    public register<T extends object>(fsm: IFSM<T, any, any>, parent?: string): IFSM<T, any, any> {
+        if(this._machines.has(fsm.name)) {
+            throw new Error('FSM ' + fsm.name + ' is already registered!');
+        }
+
+        if(parent !== undefined && !this._machines.has(parent)) {
+            throw new Error('Parent FSM ' + parent + ' is not registered!');
+        }
+
+        this._machines.set(fsm.name, fsm);
+        this._children.set(fsm.name, new Set());
+        this._unsubscribes.set(fsm.name, fsm.on('stop', ({ restart }) => !restart && this.kill(fsm.name).catch(error => {
+            console.error(`[FSMRegistry] Failed to remove stopped FSM ${fsm.name}:`, error);
+        })));
+
+        if(parent !== undefined) {
+            this._parents.set(fsm.name, parent);
+            this._children.get(parent)!.add(fsm.name);
+        }
+
+        return fsm;
+    }
+
+    /**
+     * @description
+     * Создает, регистрирует и запускает дочерний автомат.
+     * 
+     * @param name Имя автомата.
+     * @param create Функция создания автомата, например через FSMFactory.create().
+     * @param parent Имя родительского автомата. Необязательный параметр.
+     */
+    public async spawn<T extends object>(
+        name: string, 
+        create: (name: string) => IFSM<T, any, any>, 
+        parent?: string
+    ): Promise<IFSM<T, any, any>> {
+        const fsm = create(name);
+        if(fsm.name !== name) {
+            throw new Error('Spawned FSM has name ' + fsm.name + ' instead of ' + name + '!');
+        }
+
+        this.register(fsm, parent);
+        await fsm.start();
+
+        return fsm;
+    }
+
+    /**
+     * @description
+     * Останавливает автомат и все его дочерние автоматы и удаляет их из реестра.
+     * 
+     * @param name Имя автомата.
+     */
+    public async kill(name: string): Promise<void> {
+        const fsm = this._machines.get(name);
+        if(!fsm) return;
+
+        this._unsubscribes.get(name)?.();
+        this._unsubscribes.delete(name);
+
+        await this.killChildren(name);
+        await fsm.stop();
+
+        const parent = this._parents.get(name);
+        parent !== undefined && this._children.get(parent)?.delete(name);
+
+        this._parents.delete(name);
+        this._children.delete(name);
+        this._machines.delete(name);
+    }
+
+    /**
+     * @description
+     * Останавливает и удаляет из реестра все автоматы.
+     */
+    public async killAll(): Promise<void> {
+        const roots = [...this._machines.keys()].filter(name => !this._parents.has(name));
+        await Promise.all(roots.map(name => this.kill(name)));
+    }
+
+    /**
+     * @description
+     * Получает автомат по имени.
+     * 
+     * @param name Имя автомата.
+     */
+    public get<T extends object>(name: string): IFSM<T, any, any> | undefined {
+        return this._machines.get(name);
+    }
+
+    /**
+     * @description
+     * Проверяет, зарегистрирован ли автомат.
+     * 
+     * @param name Имя автомата.
+     */
+    public has(name: string): boolean {
+        return this._machines.has(name);
+    }
+
+    /**
+     * @description
+     * Получает дочерние автоматы, созданные для указанного автомата.
+     * 
+     * @param name Имя родительского автомата.
+     */
+    public children(name: string): IFSM<any, any, any>[] {
+        return [...(this._children.get(name) || [])].map(child => this._machines.get(child)!);
+    }
+
+    /**
+     * @description
+     * Отправляет событие автомату по имени.
+     * 
+     * @param to Имя автомата-получателя.
+     * @param event Имя события.
+     * @param payload Полезная нагрузка события.
+     * @returns true, если событие привело к переходу.
+     * @throws Error если автомат не зарегистрирован.
+     */
+    public async send(to: string, event: string, payload?: unknown): Promise<boolean> {
+        const fsm = this._machines.get(to);
+        if(!fsm) {
+            throw new Error('FSM ' + to + ' is not registered!');
+        }
+
+        return fsm.send(event, payload);
+    }
+
+    /**
+     * @description
+     * Отправляет событие всем автоматам реестра или всем дочерним автоматам указанного родителя.
+     * 
+     * @param event Имя события.
+     * @param payload Полезная нагрузка события.
+     * @param parent Имя родительского автомата. Необязательный параметр.
+     */
+    public async broadcast(event: string, payload?: unknown, parent?: string): Promise<void> {
+        const machines = parent !== undefined ? this.children(parent) : [...this._machines.values()];
+        await Promise.all(machines.map(fsm => fsm.send(event, payload)));
+    }
+
+    /**
+     * @description
+     * Приостанавливает все автоматы реестра, например при уходе приложения в фон.
+     */
+    public pauseAll(): void {
+        this._machines.forEach(fsm => fsm.pause());
+    }
+
+    /**
+     * @description
+     * Возобновляет все приостановленные автоматы реестра.
+     */
+    public async resumeAll(): Promise<void> {
+        await Promise.all([...this._machines.values()].map(fsm => fsm.resume()));
+    }
+
+    private async killChildren(name: string): Promise<void> {
+        const children = [...(this._children.get(name) || [])];
+        await Promise.all(children.map(child => this.kill(child)));
+    }
+}
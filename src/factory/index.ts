@@ -1,3 +1,7 @@
 export * from './models';
 export * from './empress-store.factory';
-export * from './empress-fsm.factory';
\ No newline at end of file
+export * from './observable-store.factory';
+export * from './redux-store.factory';
+export * from './zustand-store.factory';
+export * from './empress-fsm.factory';
+export * from './fsm-registry';
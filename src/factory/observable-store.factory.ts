@@ -0,0 +1,13 @@
+import { IStoreAdapter, ObservableStore, ObservableStoreAdapter } from "../store-adapter";
+import { IStoreFactory } from "./models";
+
+/**
+ * @description
+ * Фабрика ObservableStore - Store в памяти без внешних зависимостей.
+ */
+export class ObservableStoreFactory implements IStoreFactory {
+    public create<T extends object>(initialState: T): IStoreAdapter<T> {
+        const store = new ObservableStore<T>(initialState);
+        return new ObservableStoreAdapter<T>(store);
+    }
+}
@@ -0,0 +1,20 @@
+import { IReduxStoreLike, IStoreAdapter, ReduxStoreAdapter, withFSMUpdates } from "../store-adapter";
+import { IStoreFactory } from "./models";
+
+/**
+ * @description
+ * Фабрика Redux Store. Принимает функцию создания Store (например createStore из redux
+ * или обертку над configureStore из @reduxjs/toolkit), поэтому не зависит от Redux напрямую.
+ */
+export class ReduxStoreFactory implements IStoreFactory {
+
+    constructor(
+        private _createStore: (reducer: (state: any, action: any) => any, preloadedState?: any) => IReduxStoreLike<any>
+    ) {}
+
+    public create<T extends object>(initialState: T): IStoreAdapter<T> {
+        const reducer = withFSMUpdates<T>(state => state ?? initialState);
+        const store = this._createStore(reducer, initialState) as IReduxStoreLike<T>;
+        return new ReduxStoreAdapter<T>(store);
+    }
+}
@@ -0,0 +1,19 @@
+import { IStoreAdapter, IZustandStoreLike, ZustandStoreAdapter } from "../store-adapter";
+import { IStoreFactory } from "./models";
+
+/**
+ * @description
+ * Фабрика Zustand Store. Принимает функцию создания Store (например createStore из zustand/vanilla),
+ * поэтому не зависит от Zustand напрямую.
+ */
+export class ZustandStoreFactory implements IStoreFactory {
+
+    constructor(
+        private _createStore: <T extends object>(initializer: () => T) => IZustandStoreLike<T>
+    ) {}
+
+    public create<T extends object>(initialState: T): IStoreAdapter<T> {
+        const store = this._createStore<T>(() => initialState);
+        return new ZustandStoreAdapter<T>(store);
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * @description
+ * Простой типизированный наблюдатель, через который автомат
+ * оповещает подписчиков о своих событиях жизненного цикла.
+ * 
+ * @template M - Карта событий: имя события -> тип слушателя
+ */
+export class FSMObserver<M extends { [K in keyof M]: (payload: any) => void }> {
+
+    private _listeners: Map<keyof M, Set<M[keyof M]>> = new Map();
+
+    /**
+     * @description
+     * Подписывается на событие.
+     * 
+     * @param type Имя события.
+     * @param listener Слушатель события.
+     * @returns Функция отписки.
+     */
+    public on<K extends keyof M>(type: K, listener: M[K]): () => void {
+        const listeners = this._listeners.get(type) || new Set();
+        listeners.add(listener);
+        this._listeners.set(type, listeners);
+
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * @description
+     * Отписывается от события.
+     * 
+     * @param type Имя события.
+     * @param listener Слушатель события.
+     */
+    public off<K extends keyof M>(type: K, listener: M[K]): void {
+        this._listeners.get(type)?.delete(listener);
+    }
+
+    /**
+     * @description
+     * Оповещает слушателей события. Ошибка в слушателе не прерывает
+     * оповещение остальных слушателей и работу автомата.
+     * 
+     * @param type Имя события.
+     * @param payload Данные события.
+     */
+    public emit<K extends keyof M>(type: K, payload: Parameters<M[K]>[0]): void {
+        this._listeners.get(type)?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch(error) {
+                console.error(`[FSM] Listener of '${String(type)}' failed:`, error);
+            }
+        });
+    }
+
+    /**
+     * @description
+     * Удаляет всех слушателей.
+     */
+    public clear(): void {
+        this._listeners.clear();
+    }
+}
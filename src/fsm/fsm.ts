@@ -1,6 +1,5 @@
 import { 
     DeferredPromise, 
-    ExecutionController, 
     GroupsContainer, 
     GroupType, 
     ServiceContainer, 
@@ -9,20 +8,34 @@ import {
 } from 'empress-core';
 
 import { 
+    ErrorPolicy, 
+    FSMEvent, 
+    HistoryType, 
+    IExecutionControllerLike, 
     IFSM, 
     IFSMConfig, 
+    IFSMDoneData, 
+    IFSMListeners, 
+    IFSMSnapshot, 
+    IFSMStartOptions, 
+    IGroupsContainerLike, 
     IHooksConfig, 
     IStateConfig, 
     IStateLifeCycleData, 
     IStoreState, 
+    QueuePolicy, 
     StateAction, 
-    StateLifecycle, 
-    TransitionStrategy 
+    ITransitionRecord, 
+    TransitionConfig, 
+    TransitionStrategy, 
+    TransitionType 
 } from './models';
 
-import { IStoreAdapter } from 'store-adapter';
+import { IStoreAdapter } from '../store-adapter';
+import { IClock, SystemClock } from '../clock';
 import { WrapperGroup } from './wrapper-group';
 import { WrapperChain } from './wrapper-chain';
+import { FSMObserver } from './fsm-observer';
 
 /**
  * @description
@@ -38,8 +51,10 @@ import { WrapperChain } from './wrapper-chain';
  * - Управляется через Store, который хранит данные, влияющие на переходы
  * 
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export class FSM<T extends object> implements IFSM<T> {
+export class FSM<T extends object, S extends string = string, E extends string = string> implements IFSM<T, S, E> {
     
     /**
      * @description
@@ -78,16 +93,65 @@ export class FSM<T extends object> implements IFSM<T> {
      * @description
      * Получает текущее состояние конечного автомата.
      */
-    public get currentState(): string {
+    public get currentState(): S {
         return this._currentState;
     }
     
+    /**
+     * @description
+     * Получает начальное состояние конечного автомата.
+     */
+    public get initialState(): S {
+        return this._initialState;
+    }
+
+    /**
+     * @description
+     * Проверяет, находится ли автомат в финальном состоянии.
+     */
+    public get isFinal(): boolean {
+        return this._states.get(this._currentState)?.final === true;
+    }
+
+    /**
+     * @description
+     * Локальный контекст текущего состояния. Не задан, если у состояния нет фабрики контекста.
+     */
+    public get context(): unknown {
+        return this._context;
+    }
+
+    /**
+     * @description
+     * Проверяет, приостановлен ли автомат.
+     */
+    public get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    /**
+     * @description
+     * Количество изменений Store, ожидающих проверки переходов.
+     */
+    public get queueDepth(): number {
+        return this._storeStates.length;
+    }
+
+    /**
+     * @description
+     * Промис завершения автомата. Разрешается данными Store, когда автомат
+     * входит в финальное состояние. При повторном запуске завершенного автомата создается новый промис.
+     */
+    public get done(): Promise<IFSMDoneData<T, S>> {
+        return this._donePromise.promise;
+    }
+
     /**
      * @description
      * Получает карту состояний конечного автомата.
      * Каждое состояние содержит свои хуки, переходы и подсостояния.
      */
-    public get states(): Map<string, IStateConfig<T>> {
+    public get states(): Map<S, IStateConfig<T, S, E>> {
         return this._states;
     }
     
@@ -98,25 +162,70 @@ export class FSM<T extends object> implements IFSM<T> {
      * 
      * @returns Объект с хуками onEnter и onExit
      */
-    public get hooks(): IHooksConfig<T> {
+    public get hooks(): IHooksConfig<T, S> {
         return this._hooks || {};
     }
 
+    /**
+     * @description
+     * Получает историю переходов автомата, начиная с самого раннего.
+     * Количество записей ограничено параметром historyLimit конфигурации.
+     */
+    public get history(): ITransitionRecord<S>[] {
+        return [...this._history];
+    }
+
+    /**
+     * @description
+     * Получает родительский конечный автомат.
+     * Родитель устанавливается автоматически, если автомат используется как подсостояния.
+     */
+    public get parent(): IFSM<any, any, any> | null {
+        return this._parent;
+    }
+
+    private static _chainGroups: Map<string, typeof WrapperGroup> = new Map();
+
     private _name: string;
     private _storeAdapter!: IStoreAdapter<T>;
-    private _states: Map<string, IStateConfig<T>>;
-    private _currentState: string;
+    private _states: Map<S, IStateConfig<T, S, E>>;
+    private _transitions: Map<S, TransitionConfig<T, S, E>[]> = new Map();
+    private _selectors: Map<S, ((state: T) => unknown)[] | null> = new Map();
+    private _isTransitioning: boolean = false;
+    private _completionListeners: (() => void)[] = [];
+    private _donePromise: DeferredPromise<IFSMDoneData<T, S>> = new DeferredPromise();
+    private _isDone: boolean = false;
+    private _devMode: boolean;
+    private _history: ITransitionRecord<S>[] = [];
+    private _subStatesHistory: Map<S, IFSMSnapshot> = new Map();
+    private _clock: IClock;
+    private _timers: Set<unknown> = new Set();
+    private _observer: FSMObserver<IFSMListeners<T, S, E>> = new FSMObserver();
+    private _errorPolicy: ErrorPolicy;
+    private _errorState?: S;
+    private _historyLimit: number;
+    private _initialState: S;
+    private _currentState: S;
+    private _targetState: S;
     private _currentStateData!: IStoreState<T>;
     private _currentExecutionId: string = '';
     private _storeStates: IStoreState<T>[] = [];
+    private _queuePolicy: QueuePolicy;
+    private _queuePromise: Promise<void> | null = null;
     private _transitionPromise: DeferredPromise<void> | null = null;
     private _isRunning: boolean = false;
+    private _runId: number = 0;
+    private _isExited: boolean = false;
+    private _isPaused: boolean = false;
+    private _context: unknown = undefined;
+    private _exitedContext: unknown = undefined;
+    private _resumePromise: DeferredPromise<void> | null = null;
+    private _pausedTimers: (() => void)[] = [];
+    private _parent: IFSM<any, any, any> | null = null;
+    private _unsubscribe: () => void = () => {};
+    private _groupsContainer?: IGroupsContainerLike;
 
-
-    private _hooks?: {
-        onEnter?: StateLifecycle<T>;
-        onExit?: StateLifecycle<T>;
-    };
+    private _hooks?: IHooksConfig<T, S>;
 
     /**
      * @description
@@ -124,91 +233,273 @@ export class FSM<T extends object> implements IFSM<T> {
      * 
      * @param executionController - Экземпляр ExecutionController для управления выполнением состояний
      * @param config - Конфигурация конечного автомата
+     * @param config.executionController - ExecutionController, заменяющий переданный первым аргументом (опционально)
      * @param config.name - Имя автомата
      * @param config.store - Store для управления данными
      * @param config.initialState - Начальное состояние
      * @param config.states - Массив состояний
      * @param config.hooks - Глобальные хуки (опционально)
+     * @param config.groupsContainer - Контейнер для Групп цепочек (опционально)
      */
     constructor(
-        private _executionController: ExecutionController,
-        config: IFSMConfig<T>,
+        private _executionController: IExecutionControllerLike,
+        config: IFSMConfig<T, S, E>,
     ) {
+        this._executionController = config.executionController ?? _executionController;
         this._name = config.name;
         this._storeAdapter = config.store;
         this._states = new Map();
         this._hooks = config.hooks;
+        this._groupsContainer = config.groupsContainer;
+        this._devMode = config.devMode ?? false;
+        this._historyLimit = config.historyLimit ?? 50;
+        this._clock = config.clock ?? new SystemClock();
+        this._errorPolicy = config.errorPolicy ?? ErrorPolicy.Next;
+        this._errorState = config.errorState;
+        this._queuePolicy = config.queuePolicy ?? QueuePolicy.Sequential;
+        this._initialState = config.initialState;
         this._currentState = config.initialState;
+        this._targetState = config.initialState;
 
         config.states.forEach(state => {
             this._states.set(state.name, state);
+            this._transitions.set(state.name, this.sortTransitions(state.transitions || []));
+            this._selectors.set(state.name, this.collectSelectors(state.transitions || []));
+            state.subStates && state.subStates.setParent(this);
+            state.regions && state.regions.forEach(region => region.setParent(this));
         });
+    }
 
-        this._storeAdapter.subscribe(async () => {
-            if(this._isRunning) {
-                this.addStoreData(this._storeAdapter);
-                this.processTransition();
-            }
-        });
+    /**
+     * @description
+     * Устанавливает родительский конечный автомат.
+     * Вызывается родителем для автоматов, используемых в качестве подсостояний.
+     * 
+     * @param parent - Родительский автомат
+     */
+    public setParent(parent: IFSM<any, any, any> | null): void {
+        this._parent = parent;
+    }
+
+    /**
+     * @description
+     * Подписывается на события автомата: start, stop, enter, exit, transition и error.
+     * 
+     * @param type - Имя события
+     * @param listener - Слушатель события
+     * @returns Функция отписки
+     */
+    public on<K extends keyof IFSMListeners<T, S, E>>(type: K, listener: IFSMListeners<T, S, E>[K]): () => void {
+        return this._observer.on(type, listener);
     }
 
     /**
      * @description
      * Запускает конечный автомат.
      * Устанавливает начальное состояние и запускает подсостояния, если они есть.
+     * Если автомат уже запущен, он сначала останавливается, поэтому start() можно вызывать повторно.
+     * Если передан снимок, автомат запускается в сохраненном состоянии: восстанавливаются
+     * данные Store, история переходов и подсостояния, после чего выполняется onEnter восстановленного состояния.
+     * При запуске без снимка сохраненная история подсостояний сбрасывается.
      * 
+     * @param options - Параметры запуска
+     * @param options.from - Снимок, из которого восстанавливается автомат
+     * @param options.restoreStore - Восстанавливать ли данные Store из снимка
      * @throws Error если начальное состояние не найдено
      */
-    public async start(): Promise<void> {
-        this._isRunning = true;
+    public async start(options: IFSMStartOptions<T, S> = {}): Promise<void> {
+        if(this._isRunning) await this.halt(true);
+
+        const runId = this._runId;
+        const snapshot = options.from;
+        const startedAt = performance.now();
+
+        this._currentState = snapshot ? snapshot.state : this._initialState;
         const initialState = this._states.get(this._currentState);
         if (!initialState) throw new Error(`Initial state '${this._currentState}' not found`);
 
-        this.addStoreData(this._storeAdapter);
+        snapshot ? this.restoreSnapshotData(snapshot, options.restoreStore ?? true) : this._subStatesHistory.clear();
+
+        if(this._isDone) {
+            this._isDone = false;
+            this._donePromise = new DeferredPromise();
+        }
+
+        this._isRunning = true;
+        this._unsubscribe = this._storeAdapter.subscribe(() => {
+            if(this._isRunning && this.hasRelevantChanges()) {
+                this.addStoreData(this._storeAdapter) && this.processQueue();
+            }
+        });
+
         this._transitionPromise = new DeferredPromise<void>();
+        this._isTransitioning = true;
+        this._targetState = this._currentState;
 
-        const data = this.getStoreData();
-        if(!data) return;
+        const data = {
+            current: this._storeAdapter.getState(),
+            prev: this._storeAdapter.getPrevState()
+        };
 
-        await this.processOnEnter(this._currentState, '', data);
-        initialState.subStates && await initialState.subStates.start();
+        try {
+            await this.processOnEnter(this._currentState, '', data);
+            if(this.isCancelled(runId)) return;
 
-        this._currentStateData = data;
+            await this.startSubStates(initialState, snapshot, options.restoreStore);
+            this._currentStateData = data;
+        } catch(error) {
+            if(this.isCancelled(runId)) return;
+            await this.handleError(error, '', this._currentState, data);
+        }
+
+        if(this.isCancelled(runId)) return;
+        this._isTransitioning = false;
         this._transitionPromise?.resolve();
 
-        await this.processTransition();
+        this._observer.emit('start', {
+            fsmName: this._name,
+            state: this._currentState,
+            timestamp: Date.now(),
+            duration: performance.now() - startedAt
+        });
+
+        this.processBubble(this._currentState);
+        if(this.isFinal) return this.complete();
+
+        await this.processQueue();
     }
 
     /**
      * @description
      * Останавливает конечный автомат и останавливает текущее выполнение.
-     * Вызывает onExit для текущего состояния, останавливает подсостояния и отписывается от Store.
+     * Останавливает подсостояния, затем вызывает onExit для текущего состояния и отписывается от Store.
      */
     public async stop(): Promise<void> {
-        this._isRunning = false;
-        const currentState = this._states.get(this._currentState);
-        if (!currentState) return;
+        await this.halt(false);
+    }
 
-        this._executionController.stop(this._currentExecutionId);
-        this._transitionPromise?.resolve();
-        this.processOnExit(this._currentState, this._currentStateData);
+    /**
+     * @description
+     * Приостанавливает автомат вместе с активными подсостояниями и регионами.
+     * Текущее выполнение приостанавливается, если ExecutionController это поддерживает.
+     * Изменения Store продолжают накапливаться в очереди, но переходы не проверяются,
+     * а события, принудительные и отложенные переходы ожидают возобновления.
+     */
+    public pause(): void {
+        if(!this._isRunning || this._isPaused) return;
+
+        this._isPaused = true;
+        this._resumePromise = new DeferredPromise<void>();
+        this._executionController.pause?.(this._currentExecutionId);
+        this.getChildren().forEach(child => child.pause());
+
+        this._observer.emit('pause', { fsmName: this._name, state: this._currentState, timestamp: Date.now() });
+    }
+
+    /**
+     * @description
+     * Возобновляет приостановленный автомат: возобновляет текущее выполнение и подсостояния,
+     * проверяет накопленные изменения Store, затем выполняет отложенные переходы, сработавшие во время паузы.
+     * Таймеры состояния, из которого автомат вышел по изменениям Store, не срабатывают.
+     */
+    public async resume(): Promise<void> {
+        if(!this._isRunning || !this._isPaused) return;
+
+        const timers = this._pausedTimers;
+        this.clearPause();
+
+        this._executionController.resume?.(this._currentExecutionId);
+        this._observer.emit('resume', { fsmName: this._name, state: this._currentState, timestamp: Date.now() });
+
+        await Promise.all(this.getChildren().map(child => child.resume()));
+        await this.processQueue();
+
+        for(const timer of timers) {
+            await timer();
+        }
+    }
+
+    /**
+     * @description
+     * Создает сериализуемый снимок автомата.
+     * Снимок содержит текущее состояние, историю переходов, данные Store
+     * и снимки активных подсостояний и регионов.
+     */
+    public snapshot(): IFSMSnapshot<T, S> {
+        const stateConfig = this._states.get(this._currentState);
+        const subStates = stateConfig?.subStates;
+        const regions = stateConfig?.regions;
+
+        return {
+            name: this._name,
+            state: this._currentState,
+            store: this._storeAdapter.getState(),
+            history: this.history,
+            subStates: this._isRunning && subStates ? subStates.snapshot() : undefined,
+            regions: this._isRunning && regions ? regions.map(region => region.snapshot()) : undefined,
+        };
+    }
 
-        currentState.subStates && await currentState.subStates.stop();
-        this._storeAdapter.unsubscribe()
+    /**
+     * @description
+     * Восстанавливает автомат из снимка.
+     * Если автомат запущен, он предварительно останавливается.
+     * 
+     * @param snapshot - Снимок, полученный через snapshot()
+     */
+    public async restore(snapshot: IFSMSnapshot<T, S>): Promise<void> {
+        await this.start({ from: snapshot });
+    }
+
+    /**
+     * @description
+     * Принудительно переводит автомат в указанное состояние, без проверки условий переходов.
+     * Перед переходом дожидается завершения текущего перехода.
+     * Используется в том числе подсостояниями для запроса перехода у родителя.
+     * 
+     * @param to - Имя состояния, в которое осуществляется переход
+     * @throws Error если состояние не найдено
+     */
+    public async transitionTo(to: S): Promise<void> {
+        if(!this._isRunning) return;
+        if(!this._states.has(to)) throw new Error(`State '${to}' not found`);
+
+        if(!await this.waitForTurn()) return;
+
+        await this.runTransition(to, {
+            current: this._storeAdapter.getState(),
+            prev: this._storeAdapter.getPrevState()
+        });
+    }
+
+    /**
+     * @description
+     * Запрашивает переход у родительского автомата.
+     * Если автомат не является подсостояниями, ничего не делает.
+     * 
+     * @param to - Имя состояния родительского автомата
+     */
+    public async bubble(to: string): Promise<void> {
+        if(!this._parent) return;
+        await this._parent.transitionTo(to);
     }
 
     /**
      * @description
      * Обновляет состояние Store.
      * После обновления проверяются все возможные переходы.
+     * Результат функции для текущих данных используется только для выбора стратегии перехода,
+     * а в Store функция применяется после завершения текущего перехода, к актуальным данным,
+     * поэтому конкурентные обновления не затирают друг друга.
      * 
      * @param callback - Функция обновления состояния
      */
     public async update(callback: (state: T) => Partial<T>): Promise<void> {
         if(!this._isRunning) return;
-        const stateConfig = this._states.get(this._currentState);
 
-        if(stateConfig?.transitionStrategy === TransitionStrategy.Stop) {
+        const partial = callback(this._storeAdapter.getState());
+
+        if(this.resolveTransitionStrategy(partial) === TransitionStrategy.Stop) {
             this._executionController.stop(this._currentExecutionId);
         }
 
@@ -216,6 +507,41 @@ export class FSM<T extends object> implements IFSM<T> {
         this._storeAdapter.update(callback);
     }
 
+    /**
+     * @description
+     * Отправляет событие в автомат.
+     * Сначала событие передается активным подсостояниям и регионам, и если ни один из них его не обработал,
+     * проверяются переходы текущего состояния, подписанные на это событие.
+     * Перед обработкой дожидается завершения текущего перехода.
+     * 
+     * @param event - Имя события
+     * @param payload - Полезная нагрузка события, доступная в IStateLifeCycleData.event
+     * @returns true, если событие привело к переходу
+     */
+    public async send(event: E, payload?: unknown): Promise<boolean> {
+        if(!this._isRunning) return false;
+
+        if(!await this.waitForTurn()) return false;
+
+        const handled = await Promise.all(this.getChildren().map(child => child.send(event, payload)));
+        if(handled.some(Boolean)) return true;
+        if(!await this.waitForTurn()) return false;
+
+        const fsmEvent: FSMEvent<E> = { name: event, payload };
+        const data = {
+            current: this._storeAdapter.getState(),
+            prev: this._storeAdapter.getPrevState()
+        };
+
+        const transition = this.canTransit(this._currentState, data.current, data.prev, fsmEvent);
+        if(!transition) return false;
+
+        this._devMode && this.detectConflicts(this._currentState, data.current, data.prev, fsmEvent);
+
+        await this.runTransition(transition.to, data, fsmEvent, transition);
+        return true;
+    }
+
     /**
      * @description
      * Ожидает завершения текущего перехода.
@@ -224,31 +550,211 @@ export class FSM<T extends object> implements IFSM<T> {
         await this._transitionPromise?.promise;
     }
 
-    private addStoreData(store: IStoreAdapter<T>) {
-        this._storeStates.push({
-            current: store.getState(),
-            prev: store.getPrevState()
-        });
+    /**
+     * @description
+     * Дожидается, пока автомат не будет приостановлен и не будет выполнять переход.
+     * Все источники переходов (изменения Store, события, таймеры, переходы по завершению и принудительные)
+     * проходят через это ожидание и запускают переход сразу после него, без промежуточных await.
+     * Условие проверяется повторно после каждого ожидания, так как тот же промис могли ожидать
+     * другие источники, и один из них уже мог начать следующий переход.
+     * 
+     * @returns false, если автомат был остановлен
+     */
+    private async waitForTurn(): Promise<boolean> {
+        while(this._isRunning && (this._isPaused || this._isTransitioning)) {
+            await (this._isPaused ? this._resumePromise : this._transitionPromise)?.promise;
+        }
+
+        return this._isRunning;
+    }
+
+    /**
+     * @description
+     * Определяет стратегию перехода для состояния, в котором окажется автомат после текущего перехода:
+     * во время перехода это состояние, в которое он выполняется, иначе текущее состояние.
+     * Если стратегия задана функцией, то она вызывается с реальными from/to,
+     * где to - состояние, в которое автомат перейдет после применения обновления.
+     * Если обновление не приводит к переходу, используется стратегия Wait.
+     *
+     * @param partial - Данные обновления Store
+     */
+    private resolveTransitionStrategy(partial: Partial<T>): TransitionStrategy {
+        const from = this._isTransitioning ? this._targetState : this._currentState;
+        const strategy = this._states.get(from)?.transitionStrategy;
+
+        if(typeof strategy !== 'function') return strategy ?? TransitionStrategy.Wait;
+
+        const current = this._storeAdapter.getState();
+        const next = { ...current, ...partial };
+        const transition = this.canTransit(from, next, current);
+        if(!transition || transition.type === TransitionType.Internal) return TransitionStrategy.Wait;
+
+        return strategy({ from, to: transition.to, store: this._storeAdapter });
+    }
+
+    /**
+     * @description
+     * Добавляет изменение Store в очередь согласно политике очереди.
+     * 
+     * @returns false, если изменение отброшено
+     */
+    private addStoreData(store: IStoreAdapter<T>): boolean {
+        const data = { current: store.getState(), prev: store.getPrevState() };
+
+        if(this._queuePolicy === QueuePolicy.Drop && this._isTransitioning) {
+            this.emitQueue(true);
+            return false;
+        }
+
+        if(this._queuePolicy === QueuePolicy.Latest && this._storeStates.length) {
+            this._storeStates = [{ current: data.current, prev: this._storeStates[0].prev }];
+        } else {
+            this._storeStates.push(data);
+        }
+
+        this.emitQueue(false);
+        return true;
     }
 
-    private getStoreData(last: boolean = false): IStoreState<T> | undefined {
-        const data = last ? this._storeStates.pop() : this._storeStates.shift();
+    private getStoreData(): IStoreState<T> | undefined {
+        const data = this._storeStates.shift();
+        data && this.emitQueue(false);
+
         return data;
     }
+
+    private clearQueue(): void {
+        if(!this._storeStates.length) return;
+
+        this._storeStates = [];
+        this.emitQueue(false);
+    }
+
+    private emitQueue(dropped: boolean): void {
+        this._observer.emit('queue', {
+            fsmName: this._name,
+            depth: this._storeStates.length,
+            dropped,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * @description
+     * Последовательно проверяет переходы для изменений Store из очереди.
+     * Следующее изменение проверяется только после завершения перехода по предыдущему,
+     * поэтому условия всегда проверяются относительно актуального состояния.
+     * Если очередь уже обрабатывается, возвращает промис текущей обработки.
+     * Промис не отклоняется: ошибка в условии перехода передается в onError и событие error,
+     * а обработка очереди продолжается.
+     */
+    private processQueue(): Promise<void> {
+        if(this._isPaused) return Promise.resolve();
+        if(this._queuePromise) return this._queuePromise;
+
+        this._queuePromise = this.drainQueue().finally(() => this._queuePromise = null);
+        return this._queuePromise;
+    }
+
+    private async drainQueue(): Promise<void> {
+        while(this._isRunning && !this._isPaused && this._storeStates.length) {
+            if(!await this.waitForTurn()) return;
+
+            try {
+                await this.processTransition();
+            } catch(error) {
+                this.reportError(error, this._currentState, '');
+            }
+        }
+    }
    
-    private canTransit(currentStateName: string, current: T, prev: T): string | null {
+    /**
+     * @description
+     * Сортирует переходы по убыванию приоритета.
+     * Сортировка стабильна, поэтому при равном приоритете сохраняется порядок добавления.
+     */
+    private sortTransitions(transitions: TransitionConfig<T, S, E>[]): TransitionConfig<T, S, E>[] {
+        return [...transitions].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    }
+
+    /**
+     * @description
+     * Собирает селекторы переходов по условиям Store.
+     * Возвращает null, если хотя бы у одного такого перехода селекторы не заданы,
+     * так как тогда условия нужно проверять при любом изменении Store.
+     */
+    private collectSelectors(transitions: TransitionConfig<T, S, E>[]): ((state: T) => unknown)[] | null {
+        const storeTransitions = transitions.filter(t => this.isStoreTransition(t));
+        if(storeTransitions.some(t => !t.selectors)) return null;
+
+        return storeTransitions.flatMap(t => t.selectors!);
+    }
+
+    /**
+     * @description
+     * Проверяет, затронуло ли изменение Store части, от которых зависят переходы текущего состояния.
+     * Во время перехода изменения всегда считаются значимыми, так как текущее состояние еще не определено.
+     * Состояния читаются через адаптер, поэтому не зависят от аргументов, с которыми Store вызывает слушателя.
+     */
+    private hasRelevantChanges(): boolean {
+        const selectors = this._selectors.get(this._currentState);
+        if(!selectors || this._isTransitioning) return true;
+
+        const state = this._storeAdapter.getState();
+        const prev = this._storeAdapter.getPrevState();
+
+        return selectors.some(selector => !Object.is(selector(state), selector(prev)));
+    }
+
+    /**
+     * @description
+     * Проверяет, является ли переход переходом по условию Store,
+     * а не переходом по событию, отложенным переходом или переходом по завершению.
+     */
+    private isStoreTransition(transition: TransitionConfig<T, S, E>): boolean {
+        return transition.event === undefined && transition.delay === undefined && !transition.done;
+    }
+
+    private canTransit(
+        currentStateName: S, 
+        current: T, 
+        prev: T, 
+        event?: FSMEvent<E>
+    ): TransitionConfig<T, S, E> | null {
         if(!this._isRunning) return null;
-        const currentState = this._states.get(currentStateName);
-        if (!currentState || !currentState.transitions) return null;
+        const transitions = this._transitions.get(currentStateName);
+        if (!transitions) return null;
+
+        for (const transition of transitions) {
+            if(event ? transition.event !== event.name : !this.isStoreTransition(transition)) continue;
 
-        for (const transition of currentState.transitions) {
-            const canTransit = transition.condition(current, prev);
-            if (canTransit) return transition.to;
+            const canTransit = transition.condition(current, prev, event, this._context);
+            if (canTransit) return transition;
         }
 
         return null;
     }
 
+    /**
+     * @description
+     * Проверяет, удовлетворяют ли одному снимку Store сразу несколько переходов текущего состояния.
+     * Используется только в режиме разработки, так как повторно вычисляет все условия.
+     */
+    private detectConflicts(currentStateName: S, current: T, prev: T, event?: FSMEvent<E>): void {
+        const transitions = this._transitions.get(currentStateName) || [];
+        const matched = transitions
+            .filter(transition => event ? transition.event === event.name : this.isStoreTransition(transition))
+            .filter(transition => transition.condition(current, prev, event, this._context))
+            .map(transition => transition.to);
+
+        if(matched.length < 2) return;
+
+        console.warn(
+            `[FSM] In ${this._name} state ${currentStateName} has several matching transitions: ` +
+            `${matched.join(', ')}. Transition to ${matched[0]} is applied.`
+        );
+    }
+
     /**
      * @description
      * Обрабатывает переход между состояниями.
@@ -259,81 +765,622 @@ export class FSM<T extends object> implements IFSM<T> {
         const data = this.getStoreData();
         if(!data) return;
 
-        const toState = this.canTransit(this._currentState, data.current, data.prev);
-        if(toState) {
-            this._transitionPromise = new DeferredPromise<void>();
-            await this.transition(this._currentState, toState, this._currentStateData, data);
+        const transition = this.canTransit(this._currentState, data.current, data.prev);
+        if(!transition) return;
+
+        this._devMode && this.detectConflicts(this._currentState, data.current, data.prev);
+        await this.runTransition(transition.to, data, undefined, transition);
+    }
+
+    private async runTransition(
+        to: S, 
+        data: IStoreState<T>, 
+        event?: FSMEvent<E>, 
+        transition?: TransitionConfig<T, S, E>
+    ): Promise<void> {
+        if(transition?.type === TransitionType.Internal) return this.runInternalTransition(data, transition, event);
+
+        const from = this._currentState;
+        const startedAt = performance.now();
+        const runId = this._runId;
+
+        this._transitionPromise = new DeferredPromise<void>();
+        this._isTransitioning = true;
+        this._targetState = to;
+        this.addHistoryRecord(from, to);
+
+        // Ошибка в Группах перехода обрабатывается до входа в новое состояние
+        let entering = false;
+        try {
+            await this.exit(from, to, this._currentStateData);
+            if(this.isCancelled(runId)) return;
+
+            await this.processTransitionActions(from, to, transition, data, event);
+            if(this.isCancelled(runId)) return;
+
+            entering = true;
+            await this.enter(to, from, data, event);
             this._currentStateData = data;
+        } catch(error) {
+            if(this.isCancelled(runId)) return;
+
+            await this.handleError(error, from, to, data, entering);
+            if(this.isCancelled(runId)) return;
+
+            this._exitedContext = undefined;
+            this._isTransitioning = false;
             this._transitionPromise?.resolve();
+
+            // Если автомат не вернулся в исходное состояние, состояние после ошибки
+            // (например, errorState) тоже может быть финальным или передавать переход родителю
+            if(this._currentState === from) return;
+
+            this.processBubble(this._currentState);
+            if(this.isFinal) await this.complete();
+            return;
         }
+
+        if(this.isCancelled(runId)) return;
+        this._exitedContext = undefined;
+        this._isTransitioning = false;
+        this._transitionPromise?.resolve();
+
+        this._observer.emit('transition', {
+            fsmName: this._name,
+            from,
+            to,
+            transition,
+            event,
+            timestamp: Date.now(),
+            duration: performance.now() - startedAt
+        });
+
+        this.processBubble(to);
+        if(this.isFinal) await this.complete();
     }
 
-    private async transition(
-        currentStateName: string, 
-        newStateName: string, 
-        currentData: IStoreState<T>, 
-        nextData: IStoreState<T>
+    /**
+     * @description
+     * Выполняет внутренний переход: запускает actions перехода, не покидая текущее состояние.
+     * onExit/onEnter, подсостояния, отложенные переходы и локальный контекст не затрагиваются,
+     * переход не попадает в историю. Ошибка в Группах Систем не меняет состояние автомата.
+     */
+    private async runInternalTransition(
+        data: IStoreState<T>, 
+        transition: TransitionConfig<T, S, E>, 
+        event?: FSMEvent<E>
     ): Promise<void> {
-        const currentState = this._states.get(currentStateName);
-        const newState = this._states.get(newStateName);
+        const state = this._currentState;
+        const startedAt = performance.now();
+        const runId = this._runId;
+
+        this._transitionPromise = new DeferredPromise<void>();
+        this._isTransitioning = true;
+
+        try {
+            await this.processTransitionActions(state, state, transition, data, event);
+            if(this.isCancelled(runId)) return;
+
+            this._currentStateData = data;
+        } catch(error) {
+            if(this.isCancelled(runId)) return;
+
+            this.reportError(error, state, state);
+            this._isTransitioning = false;
+            this._transitionPromise?.resolve();
+            return;
+        }
+
+        this._isTransitioning = false;
+        this._transitionPromise?.resolve();
+
+        this._observer.emit('transition', {
+            fsmName: this._name,
+            from: state,
+            to: state,
+            transition,
+            event,
+            timestamp: Date.now(),
+            duration: performance.now() - startedAt
+        });
+    }
+
+    /**
+     * @description
+     * Выполняет Группы Систем перехода. Для внешнего перехода контекст не передается,
+     * так как контекст исходного состояния уже удален, а нового еще не создан.
+     */
+    private async processTransitionActions(
+        from: S, 
+        to: S, 
+        transition: TransitionConfig<T, S, E> | undefined, 
+        storeData: IStoreState<T>, 
+        event?: FSMEvent<E>
+    ): Promise<void> {
+        if(!transition?.actions) return;
+
+        const data: IStateLifeCycleData<T, S> = { 
+            fsmName: this._name, 
+            from, 
+            to, 
+            data: storeData, 
+            event, 
+            context: this._context 
+        };
+        const index = (this._transitions.get(from) || []).indexOf(transition);
+        const name = `[FSM][transition] In ${this._name} from ${from} to ${to}`;
+        const groups = this.extractGroups(transition.actions, data, 'transition:' + from + ':' + index);
+        this._currentExecutionId = this._executionController.create(groups, data, name);
+
+        await this._executionController.run(this._currentExecutionId);
+    }
+
+    /**
+     * @description
+     * Завершает работу автомата после входа в финальное состояние:
+     * останавливает автомат, вызывает хук onDone и разрешает промис done.
+     */
+    private async complete(): Promise<void> {
+        const data: IFSMDoneData<T, S> = {
+            fsmName: this._name,
+            state: this._currentState,
+            data: this._storeAdapter.getState()
+        };
+
+        await this.stop();
+
+        this._isDone = true;
+        this._hooks?.onDone && this._hooks.onDone(data);
+        this._observer.emit('done', { ...data, timestamp: Date.now() });
+        this._donePromise.resolve(data);
+    }
+
+    /**
+     * @description
+     * Запускает таймеры отложенных переходов состояния.
+     * По срабатыванию таймера дожидается завершения текущего перехода и,
+     * если автомат все еще в этом состоянии и условие выполнено, выполняет переход.
+     */
+    private scheduleDelayedTransitions(stateName: S): void {
+        const transitions = this._transitions.get(stateName) || [];
+
+        transitions
+            .filter(transition => transition.delay !== undefined)
+            .forEach(transition => {
+                const fire = async (): Promise<void> => {
+                    if(this._isPaused) {
+                        this._pausedTimers.push(fire);
+                        return;
+                    }
+
+                    if(!await this.waitForTurn() || !this._timers.has(handle)) return;
+                    this._timers.delete(handle);
+
+                    const data = {
+                        current: this._storeAdapter.getState(),
+                        prev: this._storeAdapter.getPrevState()
+                    };
+
+                    try {
+                        if(!transition.condition(data.current, data.prev, undefined, this._context)) return;
+                    } catch(error) {
+                        this.reportError(error, stateName, transition.to);
+                        return;
+                    }
+
+                    await this.runTransition(transition.to, data, undefined, transition);
+                };
 
-        if(!currentState || !newState) throw new Error(`State '${currentStateName}' or '${newStateName}' not found`);
+                const handle = this._clock.setTimeout(fire, transition.delay!);
+                this._timers.add(handle);
+            });
+    }
+
+    /**
+     * @description
+     * Останавливает автомат. При перезапуске через start() или restore()
+     * событие stop отправляется с флагом restart.
+     * Незавершенный переход отменяется: после остановки он не запускает подсостояния и таймеры.
+     */
+    private async halt(restart: boolean): Promise<void> {
+        if(!this._isRunning) return;
+        this._isRunning = false;
+        this._runId++;
+        this._unsubscribe();
+        this.clearQueue();
+        this.clearPause();
+
+        const currentState = this._states.get(this._currentState);
+        if (!currentState) return;
+
+        this._executionController.stop(this._currentExecutionId);
+        this._isTransitioning = false;
+        this._transitionPromise?.resolve();
 
-        this.processOnExit(currentStateName, currentData);
-        await this.processOnEnter(newStateName, currentStateName, nextData);
+        await this.stopSubStates(currentState);
+        this._isExited || this.processOnExit(this._currentState, '', this._currentStateData);
+        this._exitedContext = undefined;
 
-        newState.subStates && newState.subStates.start();
+        this._observer.emit('stop', { fsmName: this._name, state: this._currentState, restart, timestamp: Date.now() });
     }
 
-    private processOnExit(from: string, storeData: IStoreState<T>): void {
+    /**
+     * @description
+     * Проверяет, был ли автомат остановлен или перезапущен после начала перехода с runId.
+     */
+    private isCancelled(runId: number): boolean {
+        return runId !== this._runId;
+    }
+
+    private clearPause(): void {
+        this._isPaused = false;
+        this._pausedTimers = [];
+        this._resumePromise?.resolve();
+        this._resumePromise = null;
+    }
+
+    private cancelDelayedTransitions(): void {
+        this._timers.forEach(handle => this._clock.clearTimeout(handle));
+        this._timers.clear();
+    }
+
+    /**
+     * @description
+     * Обрабатывает ошибку, возникшую при входе в состояние, согласно политике обработки ошибок:
+     * - Previous: автомат возвращается в предыдущее состояние, onEnter которого не выполняется повторно,
+     *   но перезапускаются его подсостояния и отложенные переходы
+     * - Next: автомат остается в новом состоянии
+     * - ErrorState: автомат переходит в состояние ошибки
+     * 
+     * Если ошибка произошла в Группах перехода, автомат еще не вошел в новое состояние:
+     * при политике Next он входит в него после ошибки, а при ErrorState входит сразу в состояние ошибки.
+     * 
+     * Ошибка не пробрасывается дальше, чтобы промис перехода гарантированно завершился.
+     * 
+     * @param entered false, если автомат вышел из состояния from, но не начинал входить в to
+     */
+    private async handleError(
+        error: unknown, 
+        from: S | '', 
+        to: S, 
+        data: IStoreState<T>, 
+        entered: boolean = true
+    ): Promise<void> {
+        const stateConfig = this._states.get(to);
+        const policy = stateConfig?.errorPolicy ?? this._errorPolicy;
+        const errorState = stateConfig?.errorState ?? this._errorState;
+        const runId = this._runId;
+
+        this._executionController.stop(this._currentExecutionId);
+
+        if(policy === ErrorPolicy.Previous && from) {
+            this.cancelDelayedTransitions();
+            stateConfig?.subStates && await stateConfig.subStates.stop();
+            if(this.isCancelled(runId)) return;
+
+            this._currentState = from;
+            this._isExited = false;
+            this._context = this._exitedContext;
+            this.scheduleDelayedTransitions(from);
+            this.reportError(error, from, to);
+
+            const fromConfig = this._states.get(from);
+            fromConfig && await this.startSubStates(fromConfig);
+            return;
+        }
+
+        this._currentStateData = data;
+        this.reportError(error, from, to);
+
+        const target = policy === ErrorPolicy.ErrorState && errorState && errorState !== to ? errorState : null;
+        if(!target && entered) return;
+
+        try {
+            if(!target) {
+                await this.enter(to, from, data);
+            } else if(entered) {
+                this.addHistoryRecord(to, target);
+                await this.exit(to, target, data);
+                this.isCancelled(runId) || await this.enter(target, to, data);
+            } else {
+                from && this.addHistoryRecord(from, target);
+                await this.enter(target, from, data);
+            }
+        } catch(stateError) {
+            this.reportError(stateError, to, target ?? to);
+        }
+    }
+
+    private reportError(error: unknown, from: S | '', to: S | ''): void {
+        const data = { fsmName: this._name, from, to, state: this._currentState, error };
+
+        if(this._hooks?.onError) {
+            this._hooks.onError(data);
+        } else {
+            console.error(`[FSM] Error in ${this._name} on transition from ${from} to ${to}:`, error);
+        }
+
+        this._observer.emit('error', { ...data, timestamp: Date.now() });
+    }
+
+    private addHistoryRecord(from: S, to: S): void {
+        this._history.push({ from, to, timestamp: Date.now() });
+        if(this._history.length > this._historyLimit) this._history.shift();
+    }
+
+    /**
+     * @description
+     * Восстанавливает историю переходов и данные Store из снимка.
+     * Данные Store не восстанавливаются, если автомат использует тот же StoreAdapter,
+     * что и родитель, так как родитель уже восстановил их.
+     */
+    private restoreSnapshotData(snapshot: IFSMSnapshot<T, S>, restoreStore: boolean): void {
+        if(snapshot.name !== this._name) {
+            console.warn(`[FSM] Snapshot of ${snapshot.name} is restored into ${this._name}.`);
+        }
+
+        this._history = [...snapshot.history].slice(-this._historyLimit);
+
+        if(restoreStore && this._parent?.storeAdapter !== this._storeAdapter) {
+            this._storeAdapter.update(() => snapshot.store);
+        }
+    }
+
+    /**
+     * @description
+     * Если состояние помечено как bubble, запрашивает переход у родительского автомата.
+     * Запрос не ожидается, так как родитель останавливает текущий автомат при выходе из своего состояния.
+     * Ошибка запроса, например несуществующее состояние родителя, передается в onError и событие error.
+     */
+    private processBubble(stateName: S): void {
+        const stateConfig = this._states.get(stateName);
+        if(!this._isRunning || !stateConfig?.bubble) return;
+
+        this.bubble(stateConfig.bubble).catch((error: unknown) => this.reportError(error, stateName, ''));
+    }
+
+    /**
+     * @description
+     * Выходит из состояния: останавливает его подсостояния и регионы, затем вызывает onExit.
+     */
+    private async exit(from: S, to: S, data: IStoreState<T>): Promise<void> {
+        const stateConfig = this._states.get(from);
+        if(!stateConfig) throw new Error(`State '${from}' not found`);
+
+        const runId = this._runId;
+        await this.stopSubStates(stateConfig);
+        if(this.isCancelled(runId)) return;
+
+        this.processOnExit(from, to, data);
+    }
+
+    /**
+     * @description
+     * Входит в состояние: вызывает onEnter, затем запускает подсостояния и регионы.
+     */
+    private async enter(to: S, from: S | '', data: IStoreState<T>, event?: FSMEvent<E>): Promise<void> {
+        const stateConfig = this._states.get(to);
+        if(!stateConfig) throw new Error(`State '${to}' not found`);
+
+        const runId = this._runId;
+        await this.processOnEnter(to, from, data, event);
+        if(this.isCancelled(runId)) return;
+
+        await this.startSubStates(stateConfig);
+    }
+
+    /**
+     * @description
+     * Запускает подсостояния и регионы состояния, если они есть.
+     * Если передан снимок автомата, подсостояния и регионы восстанавливаются из него.
+     * Иначе, если для состояния задана история, подсостояния продолжают работу 
+     * с последнего активного подсостояния.
+     */
+    private async startSubStates(
+        state: IStateConfig<T, S, E>, 
+        snapshot?: IFSMSnapshot, 
+        restoreStore?: boolean
+    ): Promise<void> {
+        if(state.subStates) {
+            const options = snapshot ? { from: snapshot.subStates, restoreStore } : this.getHistoryOptions(state);
+            await state.subStates.start(options);
+        }
+
+        if(state.regions) {
+            await Promise.all(state.regions.map((region, index) => region.start({ 
+                from: snapshot?.regions?.[index], 
+                restoreStore 
+            })));
+        }
+
+        this.watchCompletion(state);
+    }
+
+    private getHistoryOptions(state: IStateConfig<T, S, E>): IFSMStartOptions {
+        const snapshot = state.history && this._subStatesHistory.get(state.name);
+        if(!snapshot) return {};
+
+        const from = state.history === HistoryType.Deep 
+            ? snapshot 
+            : { ...snapshot, subStates: undefined, regions: undefined };
+        return { from, restoreStore: false };
+    }
+
+    /**
+     * @description
+     * Останавливает подсостояния и регионы состояния, если они есть.
+     * Если для состояния задана история, предварительно сохраняет снимок подсостояний.
+     */
+    private async stopSubStates(state: IStateConfig<T, S, E>): Promise<void> {
+        this._completionListeners.forEach(unsubscribe => unsubscribe());
+        this._completionListeners = [];
+
+        if(state.subStates) {
+            state.history && this._subStatesHistory.set(state.name, state.subStates.snapshot());
+            await state.subStates.stop();
+        }
+
+        if(state.regions) {
+            await Promise.all(state.regions.map(region => region.stop()));
+        }
+    }
+
+    /**
+     * @description
+     * Отслеживает завершение подсостояний и регионов состояния.
+     * Когда все они достигают финального состояния, проверяются переходы по завершению.
+     */
+    private watchCompletion(state: IStateConfig<T, S, E>): void {
+        const children = this.getChildren(state);
+        const hasDoneTransitions = (this._transitions.get(state.name) || []).some(t => t.done);
+        if(!children.length || !hasDoneTransitions) return;
+
+        const check = () => {
+            if(!children.every(child => child.isFinal)) return;
+
+            this.processDoneTransitions(state.name)
+                .catch((error: unknown) => this.reportError(error, state.name, ''));
+        };
+
+        this._completionListeners = children.flatMap(child => [
+            child.on('start', check), 
+            child.on('transition', check)
+        ]);
+
+        check();
+    }
+
+    /**
+     * @description
+     * Возвращает подсостояния и регионы состояния. Без аргумента - текущего состояния.
+     */
+    private getChildren(state: IStateConfig<T, S, E> | undefined = this._states.get(this._currentState)): IFSM<any, any, any>[] {
+        if(!state) return [];
+        return [...(state.subStates ? [state.subStates] : []), ...(state.regions || [])];
+    }
+
+    private async processDoneTransitions(stateName: S): Promise<void> {
+        if(!await this.waitForTurn() || this._currentState !== stateName) return;
+
+        const data = {
+            current: this._storeAdapter.getState(),
+            prev: this._storeAdapter.getPrevState()
+        };
+
+        const transition = (this._transitions.get(stateName) || [])
+            .find(t => t.done && t.condition(data.current, data.prev, undefined, this._context));
+
+        if(transition) await this.runTransition(transition.to, data, undefined, transition);
+    }
+
+    private processOnExit(from: S, to: S | '', storeData: IStoreState<T>): void {
         const stateConfig = this._states.get(from);
 
         if (!stateConfig) throw new Error(`State '${from}' not found`);
+
+        const context = this._context;
+        this._exitedContext = context;
+        this._context = undefined;
+        this._isExited = true;
+
+        this.cancelDelayedTransitions();
+        this._observer.emit('exit', { fsmName: this._name, from, to, timestamp: Date.now() });
         if(!stateConfig.onExit) return;
 
-        const data = { fsmName: this._name, from, to: '', data: storeData };
+        const data: IStateLifeCycleData<T, S> = { fsmName: this._name, from, to, data: storeData, context };
         const name = `[FSM][onExit] In ${this._name} from ${from}}`;
-        const groups = this.extractGroups(stateConfig.onExit, data);
+        const groups = this.extractGroups(stateConfig.onExit, data, 'onExit:' + from);
         const executionId = this._executionController.create(groups, data, name);
 
         this._hooks?.onExit && this._hooks.onExit(data);
-        this._executionController.run(executionId, false);
+        Promise.resolve(this._executionController.run(executionId, false))
+            .catch((error: unknown) => this.reportError(error, from, to));
     }
 
-    private async processOnEnter(to: string, from: string, storeData: IStoreState<T>): Promise<void> {
+    private async processOnEnter(
+        to: S, 
+        from: S | '', 
+        storeData: IStoreState<T>, 
+        event?: FSMEvent<E>
+    ): Promise<void> {
         const stateConfig = this._states.get(to);
 
         if (!stateConfig) throw new Error(`State '${to}' not found`);
-        if(!stateConfig.onEnter) return;
-
-        const data = { fsmName: this._name, from, to, data: storeData };
-        const name = `[FSM][onEnter] In ${this._name} from ${from} to ${to}`;
-        const groups = this.extractGroups(stateConfig.onEnter, data);
-        this._currentExecutionId = this._executionController.create(groups, data, name);
 
         this._currentState = to;
+        this._isExited = false;
+        this._context = stateConfig.context ? stateConfig.context(storeData.current) : undefined;
+        this.scheduleDelayedTransitions(to);
 
-        this._hooks?.onEnter && this._hooks.onEnter(data);
-        await this._executionController.run(this._currentExecutionId);
+        const startedAt = performance.now();
+
+        if(stateConfig.onEnter) {
+            const data: IStateLifeCycleData<T, S> = { 
+                fsmName: this._name, 
+                from, 
+                to, 
+                data: storeData, 
+                event, 
+                context: this._context 
+            };
+            const name = `[FSM][onEnter] In ${this._name} from ${from} to ${to}`;
+            const groups = this.extractGroups(stateConfig.onEnter, data, 'onEnter:' + to);
+            this._currentExecutionId = this._executionController.create(groups, data, name);
+
+            this._hooks?.onEnter && this._hooks.onEnter(data);
+            await this._executionController.run(this._currentExecutionId);
+        }
+
+        this._observer.emit('enter', {
+            fsmName: this._name,
+            from,
+            to,
+            timestamp: Date.now(),
+            duration: performance.now() - startedAt
+        });
     }
 
     private extractGroups(
-        actions: StateAction<T>,
-        data: IStateLifeCycleData<T>
-    ): GroupType<IStateLifeCycleData<T>>[] {
+        actions: StateAction<T, S>,
+        data: IStateLifeCycleData<T, S>,
+        key: string
+    ): GroupType<IStateLifeCycleData<T, S>>[] {
         if(typeof actions === 'function') {
             const chain = new WrapperChain();
             actions(chain, data);
 
-            const wrapper: SystemGroup<IStateLifeCycleData<T>> = new WrapperGroup(chain);
-            const groupsContainer = ServiceContainer.instance.get(GroupsContainer);
-            groupsContainer.set(WrapperGroup, wrapper);
+            const group = this.getChainGroup(key);
+            const wrapper: SystemGroup<IStateLifeCycleData<T, S>> = new group(chain);
+            const groupsContainer = this._groupsContainer ?? ServiceContainer.instance.get(GroupsContainer);
+            groupsContainer.set(group, wrapper);
 
-            return [WrapperGroup];
+            return [group];
         }
         else {
             return actions;
         }
     }
+
+    /**
+     * @description
+     * Возвращает класс Группы для цепочки жизненного цикла состояния.
+     * У каждой цепочки своя регистрация в GroupsContainer, поэтому цепочки разных состояний
+     * и разных автоматов, выполняемые одновременно, не подменяют друг друга.
+     * Класс Группы общий для экземпляров автоматов с одинаковым именем, поэтому контейнер не разрастается
+     * при создании новых экземпляров.
+     * 
+     * @param key - Жизненный цикл и имя состояния
+     */
+    private getChainGroup(key: string): typeof WrapperGroup {
+        const name = `WrapperGroup[${this._name}:${key}]`;
+        let group = FSM._chainGroups.get(name);
+        if(group) return group;
+
+        group = class extends WrapperGroup<any> {};
+        Object.defineProperty(group, 'name', { value: name });
+        FSM._chainGroups.set(name, group);
+
+        return group;
+    }
     
 }
\ No newline at end of file
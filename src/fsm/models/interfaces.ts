@@ -1,5 +1,20 @@
-import { StateLifecycle, TransitionConfig, TransitionStrategy, TransitionContext, StateAction } from './types';
-import { IStoreAdapter } from 'store-adapter';
+import { 
+    StateLifecycle, 
+    TransitionConfig, 
+    TransitionStrategy, 
+    TransitionContext, 
+    StateAction, 
+    FSMEvent, 
+    HistoryType, 
+    ErrorPolicy, 
+    ErrorLifecycle, 
+    DoneLifecycle, 
+    QueuePolicy, 
+    StateContextFactory 
+} from './types';
+import { GroupType, SystemGroup } from 'empress-core';
+import { IStoreAdapter } from '../../store-adapter';
+import { IClock } from '../../clock';
 
 /**
  * Интерфейс, описывающий состояние Store на момент перехода или выхода из стейта.
@@ -12,40 +27,136 @@ export interface IStoreState<T extends object> {
 
 /**
  * Интерфейс, описывающий данные жизненного цикла состояния.
+ * Пустая строка в from/to означает запуск автомата или выход из состояния без перехода.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
  */
-export interface IStateLifeCycleData<T extends object> {
+export interface IStateLifeCycleData<T extends object, S extends string = string> {
     fsmName: string,
-    from: string,
-    to: string,
-    data: IStoreState<T>
+    from: S | '',
+    to: S | '',
+    data: IStoreState<T>,
+    /**
+     * Событие, вызвавшее переход. Заполняется только для переходов по событию.
+     */
+    event?: FSMEvent,
+    /**
+     * Локальный контекст состояния: для onEnter - контекст нового состояния,
+     * для onExit - контекст состояния, из которого выполняется выход.
+     */
+    context?: unknown
 }
 
 /**
  * Конфигурация конечного автомата (FSM).
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export interface IFSMConfig<T extends object> {
+export interface IFSMConfig<T extends object, S extends string = string, E extends string = string> {
     name: string;
     store: IStoreAdapter<T>;
-    initialState: string;
-    states: IStateConfig<T>[];
-    hooks?: {
-        onEnter?: StateLifecycle<T>;
-        onExit?: StateLifecycle<T>;
-    };
+    initialState: S;
+    states: IStateConfig<T, S, E>[];
+    /**
+     * Режим разработки. Если включен, автомат предупреждает в консоли,
+     * когда условиям удовлетворяют сразу несколько переходов текущего состояния.
+     * @default false
+     */
+    devMode?: boolean;
+    /**
+     * Максимальное количество записей в истории переходов.
+     * @default 50
+     */
+    historyLimit?: number;
+    /**
+     * Часы, по которым отсчитываются отложенные переходы.
+     * @default SystemClock
+     */
+    clock?: IClock;
+    /**
+     * Поведение автомата при ошибке в Группах Систем onEnter.
+     * Может быть переопределено для отдельного состояния.
+     * @default ErrorPolicy.Next
+     */
+    errorPolicy?: ErrorPolicy;
+    /**
+     * Состояние, в которое автомат переходит при ошибке, если выбрана политика ErrorPolicy.ErrorState.
+     * Может быть переопределено для отдельного состояния.
+     */
+    errorState?: S;
+    /**
+     * Политика очереди изменений Store, по которым проверяются переходы.
+     * @default QueuePolicy.Sequential
+     */
+    queuePolicy?: QueuePolicy;
+    hooks?: IHooksConfig<T, S>;
+    /**
+     * ExecutionController автомата. Если задан, используется вместо переданного в конструктор FSM.
+     * @default ServiceContainer.instance.get(ExecutionController) при сборке через FSMBuilder
+     */
+    executionController?: IExecutionControllerLike;
+    /**
+     * Контейнер, в котором регистрируются Группы цепочек onEnter/onExit.
+     * Должен совпадать с контейнером, из которого ExecutionController получает Группы.
+     * @default ServiceContainer.instance.get(GroupsContainer)
+     */
+    groupsContainer?: IGroupsContainerLike;
+}
+
+/**
+ * Контракт ExecutionController, используемый автоматом.
+ * Позволяет передать собственную реализацию, например FakeExecutionController в тестах.
+ */
+export interface IExecutionControllerLike {
+    create(groups: GroupType<any>[], data: any, name: string): string;
+    run(id: string, await?: boolean): unknown;
+    stop(id: string): void;
+    /**
+     * Приостанавливает выполнение. Вызывается при FSM.pause(), если поддерживается контроллером.
+     */
+    pause?(id: string): void;
+    /**
+     * Возобновляет выполнение. Вызывается при FSM.resume(), если поддерживается контроллером.
+     */
+    resume?(id: string): void;
+}
+
+/**
+ * Контракт GroupsContainer, используемый автоматом для регистрации Групп цепочек.
+ */
+export interface IGroupsContainerLike {
+    set(group: GroupType<any>, instance: SystemGroup<any>): void;
 }
 
 /**
  * Конфигурация отдельного состояния автомата.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export interface IStateConfig<T extends object> {
-    name: string;
-    transitions?: TransitionConfig<T>[];
-    subStates?: IFSM<any>;
-    onEnter?: StateAction<T>;
-    onExit?: StateAction<T>;
+export interface IStateConfig<T extends object, S extends string = string, E extends string = string> {
+    name: S;
+    transitions?: TransitionConfig<T, S, E>[];
+    subStates?: IFSM<any, any, any>;
+    /**
+     * Параллельные (ортогональные) регионы состояния.
+     * Все регионы запускаются при входе в состояние и останавливаются при выходе из него.
+     */
+    regions?: IFSM<any, any, any>[];
+    /**
+     * Является ли состояние финальным.
+     * При входе в финальное состояние автомат завершает работу и останавливается.
+     */
+    final?: boolean;
+    /**
+     * Фабрика локального контекста состояния. Контекст создается при входе в состояние,
+     * доступен Группам onEnter/onExit через IStateLifeCycleData.context и условиям переходов
+     * этого состояния, и удаляется при выходе из него.
+     */
+    context?: StateContextFactory<T>;
+    onEnter?: StateAction<T, S>;
+    onExit?: StateAction<T, S>;
     /**
      * Strategy for handling transitions during state execution.
      * - Stop: Immediately stops current state execution when transitioning
@@ -54,30 +165,297 @@ export interface IStateConfig<T extends object> {
      * based on transition context.
      * @default TransitionStrategy.Wait
      */
-    transitionStrategy?: TransitionStrategy | ((context: TransitionContext<T>) => TransitionStrategy);
+    transitionStrategy?: TransitionStrategy | ((context: TransitionContext<T, S>) => TransitionStrategy);
+    /**
+     * Имя состояния родительского автомата, в которое родитель перейдет 
+     * при входе в это состояние. Используется для "всплытия" перехода 
+     * из терминального подсостояния.
+     */
+    bubble?: string;
+    /**
+     * History of sub-states.
+     * - Shallow: On re-enter sub-states resume from the last active sub-state
+     * - Deep: On re-enter sub-states resume from the last active sub-state on every nesting level
+     * If not set, sub-states always start from their initial state.
+     */
+    history?: HistoryType;
+    /**
+     * Поведение автомата при ошибке в Группах Систем onEnter этого состояния.
+     * Переопределяет IFSMConfig.errorPolicy.
+     */
+    errorPolicy?: ErrorPolicy;
+    /**
+     * Состояние, в которое автомат переходит при ошибке в этом состоянии.
+     * Переопределяет IFSMConfig.errorState.
+     */
+    errorState?: S;
 }
 
 /**
  * Конфигурация глобальных хуков автомата.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export interface IHooksConfig<T extends object, S extends string = string> {
+    onEnter?: StateLifecycle<T, S>;
+    onExit?: StateLifecycle<T, S>;
+    /**
+     * Вызывается при ошибке в Группах Систем состояния.
+     * Если не задан, ошибка выводится в консоль.
+     */
+    onError?: ErrorLifecycle<S>;
+    /**
+     * Вызывается, когда автомат входит в финальное состояние и завершает работу.
+     */
+    onDone?: DoneLifecycle<T, S>;
+}
+
+/**
+ * Данные о завершении автомата.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export interface IFSMDoneData<T extends object, S extends string = string> {
+    fsmName: string;
+    /**
+     * Финальное состояние, в котором автомат завершил работу.
+     */
+    state: S;
+    /**
+     * Данные Store на момент завершения.
+     */
+    data: T;
+}
+
+/**
+ * Данные об ошибке автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMErrorData<S extends string = string> {
+    fsmName: string;
+    from: S | '';
+    to: S | '';
+    /**
+     * Состояние, в котором автомат оказался после применения политики обработки ошибок.
+     */
+    state: S;
+    error: unknown;
+}
+
+/**
+ * Запись в истории переходов автомата.
+ * @template S - Тип имен состояний
+ */
+export interface ITransitionRecord<S extends string = string> {
+    from: S;
+    to: S;
+    timestamp: number;
+}
+
+/**
+ * Сериализуемый снимок автомата: текущее состояние, снимки активных подсостояний
+ * и данные Store, полученные через IStoreAdapter.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export interface IFSMSnapshot<T extends object = any, S extends string = string> {
+    name: string;
+    state: S;
+    store: T;
+    history: ITransitionRecord<S>[];
+    subStates?: IFSMSnapshot;
+    regions?: IFSMSnapshot[];
+}
+
+/**
+ * Параметры запуска автомата.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export interface IFSMStartOptions<T extends object = any, S extends string = string> {
+    /**
+     * Снимок, из которого восстанавливается автомат.
+     * Если задан, автомат запускается сразу в сохраненном состоянии, минуя начальное.
+     */
+    from?: IFSMSnapshot<T, S>;
+    /**
+     * Восстанавливать ли данные Store из снимка.
+     * @default true
+     */
+    restoreStore?: boolean;
+}
+
+/**
+ * Данные события запуска автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMStartPayload<S extends string = string> {
+    fsmName: string;
+    state: S;
+    timestamp: number;
+    /**
+     * Длительность запуска в миллисекундах, включая onEnter начального состояния.
+     */
+    duration: number;
+}
+
+/**
+ * Данные события остановки автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMStopPayload<S extends string = string> {
+    fsmName: string;
+    state: S;
+
+    /**
+     * true, если автомат остановлен для перезапуска через start() или restore().
+     */
+    restart: boolean;
+    timestamp: number;
+}
+
+/**
+ * Данные событий приостановки и возобновления автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMPausePayload<S extends string = string> {
+    fsmName: string;
+    state: S;
+    timestamp: number;
+}
+
+/**
+ * Данные события входа в состояние.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMEnterPayload<S extends string = string> {
+    fsmName: string;
+    from: S | '';
+    to: S;
+    timestamp: number;
+    /**
+     * Длительность выполнения onEnter в миллисекундах.
+     */
+    duration: number;
+}
+
+/**
+ * Данные события выхода из состояния.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMExitPayload<S extends string = string> {
+    fsmName: string;
+    from: S;
+    to: S | '';
+    timestamp: number;
+}
+
+/**
+ * Данные события перехода между состояниями.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export interface IFSMTransitionPayload<T extends object, S extends string = string, E extends string = string> {
+    fsmName: string;
+    from: S;
+    to: S;
+    /**
+     * Сработавший переход. Не задан для принудительных переходов через transitionTo().
+     */
+    transition?: TransitionConfig<T, S, E>;
+    event?: FSMEvent<E>;
+    timestamp: number;
+    /**
+     * Длительность перехода в миллисекундах, включая onExit, onEnter и запуск подсостояний.
+     */
+    duration: number;
+}
+
+/**
+ * Данные события ошибки автомата.
+ * @template S - Тип имен состояний
+ */
+export interface IFSMErrorPayload<S extends string = string> extends IFSMErrorData<S> {
+    timestamp: number;
+}
+
+/**
+ * Данные события изменения очереди изменений Store.
+ */
+export interface IFSMQueuePayload {
+    fsmName: string;
+    /**
+     * Количество изменений Store, ожидающих проверки переходов.
+     */
+    depth: number;
+    /**
+     * Было ли изменение Store отброшено политикой очереди.
+     */
+    dropped: boolean;
+    timestamp: number;
+}
+
+/**
+ * Данные события завершения автомата.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export interface IFSMDonePayload<T extends object, S extends string = string> extends IFSMDoneData<T, S> {
+    timestamp: number;
+}
+
+/**
+ * Карта событий автомата, на которые можно подписаться через FSM.on().
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export interface IHooksConfig<T extends object> {
-    onEnter?: StateLifecycle<T>;
-    onExit?: StateLifecycle<T>;
+export interface IFSMListeners<T extends object, S extends string = string, E extends string = string> {
+    start: (payload: IFSMStartPayload<S>) => void;
+    stop: (payload: IFSMStopPayload<S>) => void;
+    enter: (payload: IFSMEnterPayload<S>) => void;
+    exit: (payload: IFSMExitPayload<S>) => void;
+    transition: (payload: IFSMTransitionPayload<T, S, E>) => void;
+    error: (payload: IFSMErrorPayload<S>) => void;
+    done: (payload: IFSMDonePayload<T, S>) => void;
+    queue: (payload: IFSMQueuePayload) => void;
+    pause: (payload: IFSMPausePayload<S>) => void;
+    resume: (payload: IFSMPausePayload<S>) => void;
 }
 
 /**
  * Основной интерфейс конечного автомата.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export interface IFSM<T extends object> {
+export interface IFSM<T extends object, S extends string = string, E extends string = string> {
     name: string;
     store: any;
     storeAdapter: IStoreAdapter<T>;
-    currentState: string;
-    states: Map<string, IStateConfig<T>>;
-    hooks: IHooksConfig<T>;
-    start(): void;
-    stop(): void;
+    initialState: S;
+    currentState: S;
+    isFinal: boolean;
+    isPaused: boolean;
+    queueDepth: number;
+    context: unknown;
+    done: Promise<IFSMDoneData<T, S>>;
+    states: Map<S, IStateConfig<T, S, E>>;
+    hooks: IHooksConfig<T, S>;
+    history: ITransitionRecord<S>[];
+    parent: IFSM<any, any, any> | null;
+    setParent(parent: IFSM<any, any, any> | null): void;
+    start(options?: IFSMStartOptions<T, S>): Promise<void>;
+    stop(): Promise<void>;
+    pause(): void;
+    resume(): Promise<void>;
+    snapshot(): IFSMSnapshot<T, S>;
+    restore(snapshot: IFSMSnapshot<T, S>): Promise<void>;
     update(callback: (state: T) => Partial<T>): void;
+    send(event: E, payload?: unknown): Promise<boolean>;
+    transitionTo(to: S): Promise<void>;
+    waitForTransition(): Promise<void>;
+    on<K extends keyof IFSMListeners<T, S, E>>(type: K, listener: IFSMListeners<T, S, E>[K]): () => void;
+    bubble(to: string): Promise<void>;
 }
\ No newline at end of file
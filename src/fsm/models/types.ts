@@ -1,12 +1,14 @@
 import { Store } from "empress-store";
-import { IStateLifeCycleData, IStateConfig } from './interfaces';
+import { IStateLifeCycleData, IStateConfig, IFSMErrorData, IFSMDoneData } from './interfaces';
 import { GroupType, SystemChain } from "empress-core";
+import { IStoreAdapter } from '../../store-adapter';
 
 /**
  * Тип, представляющий состояние конечного автомата.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
  */
-export type FSMState<T extends object> = IStateConfig<T>;
+export type FSMState<T extends object, S extends string = string> = IStateConfig<T, S>;
 
 export enum TransitionStrategy {
     /**
@@ -20,31 +22,201 @@ export enum TransitionStrategy {
     Wait = 'wait'
 }
 
+export enum HistoryType {
+    /**
+     * Restore only the last active sub-state, nested sub-states start from their initial states
+     */
+    Shallow = 'shallow',
+
+    /**
+     * Restore the whole tree of last active nested sub-states
+     */
+    Deep = 'deep'
+}
+
+export enum ErrorPolicy {
+    /**
+     * Return to the previous state when the new state fails on enter
+     */
+    Previous = 'previous',
+
+    /**
+     * Stay in the new state even if it fails on enter
+     */
+    Next = 'next',
+
+    /**
+     * Move to the error state when the new state fails on enter
+     */
+    ErrorState = 'error-state'
+}
+
+export enum TransitionType {
+    /**
+     * Exit the source state and enter the target state, even if it is the same state
+     */
+    External = 'external',
+
+    /**
+     * Run transition actions without leaving the current state
+     */
+    Internal = 'internal'
+}
+
+export enum QueuePolicy {
+    /**
+     * Evaluate transitions for every store snapshot in order
+     */
+    Sequential = 'sequential',
+
+    /**
+     * Keep only the latest pending store snapshot
+     */
+    Latest = 'latest',
+
+    /**
+     * Drop store snapshots that arrive while a transition is running
+     */
+    Drop = 'drop'
+}
+
 /**
  * Контекст перехода между состояниями.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
  */
-export interface TransitionContext<T extends object> {
-    from: string;
-    to: string;
-    store: Store<T>;
+export interface TransitionContext<T extends object, S extends string = string> {
+    from: S;
+    to: S;
+    store: IStoreAdapter<T>;
+}
+
+/**
+ * Событие, отправляемое в автомат через FSM.send().
+ * @template E - Тип имен событий
+ * @template P - Тип полезной нагрузки события
+ */
+export interface FSMEvent<E extends string = string, P = any> {
+    name: E;
+    payload?: P;
 }
 
 /**
  * Тип функции жизненного цикла состояния.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
  */
-export type StateLifecycle<T extends object> = (
-    data: IStateLifeCycleData<T>
+export type StateLifecycle<T extends object, S extends string = string> = (
+    data: IStateLifeCycleData<T, S>
 ) => void;
 
+/**
+ * Тип функции обработки ошибки автомата.
+ * @template S - Тип имен состояний
+ */
+export type ErrorLifecycle<S extends string = string> = (
+    data: IFSMErrorData<S>
+) => void;
+
+/**
+ * Тип функции обработки завершения автомата.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ */
+export type DoneLifecycle<T extends object, S extends string = string> = (
+    data: IFSMDoneData<T, S>
+) => void;
+
+/**
+ * Фабрика локального контекста состояния.
+ * Вызывается при входе в состояние с текущими данными Store.
+ * @template T - Тип данных состояния
+ */
+export type StateContextFactory<T extends object> = (state: T) => object;
+
+/**
+ * Условие перехода. Для переходов по событию получает отправленное событие третьим аргументом,
+ * четвертым аргументом - локальный контекст текущего состояния.
+ * Тип контекста не выводится из фабрики контекста, поэтому условие приводит его самостоятельно.
+ * @template T - Тип данных состояния
+ * @template E - Тип имен событий
+ */
+export type TransitionCondition<T extends object, E extends string = string> = 
+    (state: T, prev: T, event: FSMEvent<E> | undefined, context: unknown) => boolean;
+
 /**
  * Конфигурация перехода между состояниями.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
  */
-export interface TransitionConfig<T extends object> {
-    to: string;
-    condition: (state: T, prev: T) => boolean;
+export interface TransitionConfig<T extends object, S extends string = string, E extends string = string> {
+    to: S;
+    /**
+     * Условие перехода. Для переходов по событию выступает в роли guard
+     * и получает отправленное событие третьим аргументом.
+     * Четвертым аргументом передается локальный контекст текущего состояния.
+     */
+    condition: TransitionCondition<T, E>;
+    /**
+     * Дополнительное условие перехода по событию, таймеру или завершению, из которого FSMBuilder
+     * построил condition. Автоматом не используется, нужно для сериализации конфигурации.
+     */
+    guard?: (state: T, ...args: any[]) => boolean;
+    /**
+     * Имя события, по которому срабатывает переход.
+     * Если задано, переход не проверяется при изменениях Store,
+     * а только при отправке события через FSM.send().
+     */
+    event?: E;
+    /**
+     * Приоритет перехода. Переходы с большим приоритетом проверяются раньше,
+     * при равном приоритете сохраняется порядок добавления.
+     * @default 0
+     */
+    priority?: number;
+    /**
+     * Задержка перехода в миллисекундах.
+     * Если задана, переход не проверяется при изменениях Store и событиях,
+     * а срабатывает через указанное время после входа в состояние, если условие выполнено.
+     * Таймер отменяется при выходе из состояния.
+     */
+    delay?: number;
+    /**
+     * Тип перехода. Внешний переход, в том числе в то же состояние, выполняет onExit и onEnter
+     * и перезапускает подсостояния, таймеры и локальный контекст.
+     * Внутренний переход не покидает текущее состояние и выполняет только actions перехода,
+     * значение to для него игнорируется.
+     * @default TransitionType.External
+     */
+    type?: TransitionType;
+    /**
+     * Группы Систем или цепочка перехода. Для внешнего перехода выполняются после onExit исходного
+     * состояния и до onEnter нового, для внутреннего - вместо них.
+     * Ошибка в Группах внешнего перехода обрабатывается политикой ошибок нового состояния.
+     */
+    actions?: StateAction<T, S>;
+    /**
+     * Селекторы частей Store, от которых зависит условие перехода.
+     * Если у всех переходов состояния по условиям Store заданы селекторы,
+     * автомат пропускает изменения Store, не затронувшие выбранные части,
+     * не копируя состояние и не вычисляя условия.
+     */
+    selectors?: ((state: T) => unknown)[];
+    /**
+     * Переход по завершению. Если задан, переход не проверяется при изменениях Store и событиях,
+     * а срабатывает, когда подсостояния и все регионы состояния достигли финального состояния
+     * и условие выполнено.
+     */
+    done?: boolean;
+    /**
+     * Короткое имя перехода или его условия. Используется в диаграммах.
+     */
+    name?: string;
+    /**
+     * Описание перехода. Используется в диаграммах, если не задано имя.
+     */
+    description?: string;
 };
 
 /**
@@ -56,5 +228,8 @@ export type Condition<T extends object> = (store: Store<T>) => boolean;
 /**
  * Тип действия состояния.
  * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
  */
-export type StateAction<T extends object> = GroupType<IStateLifeCycleData<T>>[] | ((chain: SystemChain, data: IStateLifeCycleData<T>) => void);
\ No newline at end of file
+export type StateAction<T extends object, S extends string = string> = 
+    GroupType<IStateLifeCycleData<T, S>>[] | 
+    ((chain: SystemChain, data: IStateLifeCycleData<T, S>) => void);
\ No newline at end of file
@@ -2,3 +2,7 @@ export * from './fsm';
 export * from './factory';
 export * from './store-adapter';
 export * from './builder';
+export * from './clock';
+export * from './analyzer';
+export * from './diagram';
+export * from './definition';
@@ -1,2 +1,7 @@
 export * from './models';
-export * from './empress-store.adapter';
\ No newline at end of file
+export * from './empress-store.adapter';
+export * from './tracked-store.adapter';
+export * from './observable-store';
+export * from './observable-store.adapter';
+export * from './redux-store.adapter';
+export * from './zustand-store.adapter';
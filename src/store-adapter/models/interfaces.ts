@@ -5,4 +5,23 @@ export interface IStoreAdapter<T extends object, K = any> {
     update(updater: (state: T) => Partial<T>): void;
     subscribe(listener: (state: T, prev: T) => void): () => void;
     unsubscribe(): void;
-}
\ No newline at end of file
+}
+
+/**
+ * Контракт Store в стиле Redux: getState/dispatch/subscribe.
+ * Слушатели вызываются без аргументов, поэтому предыдущее состояние отслеживает адаптер.
+ */
+export interface IReduxStoreLike<T extends object> {
+    getState(): T;
+    dispatch(action: any): any;
+    subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Контракт Store в стиле Zustand (zustand/vanilla): getState/setState/subscribe.
+ */
+export interface IZustandStoreLike<T extends object> {
+    getState(): T;
+    setState(partial: Partial<T>): void;
+    subscribe(listener: (state: T, prev: T) => void): () => void;
+}
@@ -0,0 +1,21 @@
+import { ObservableStore } from "./observable-store";
+import { TrackedStoreAdapter } from "./tracked-store.adapter";
+
+/**
+ * @description
+ * Адаптер для ObservableStore - Store без внешних зависимостей.
+ */
+export class ObservableStoreAdapter<T extends object> extends TrackedStoreAdapter<T, ObservableStore<T>> {
+
+    protected readState(): T {
+        return this._store.getState();
+    }
+
+    protected writeState(partial: Partial<T>): void {
+        this._store.update(() => partial);
+    }
+
+    protected subscribeStore(listener: () => void): () => void {
+        return this._store.subscribe(listener);
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * @description
+ * Простой Store без внешних зависимостей.
+ * Хранит состояние в памяти, обновляет его иммутабельно и оповещает подписчиков.
+ * 
+ * @template T - Тип данных состояния
+ */
+export class ObservableStore<T extends object> {
+
+    private _state: T;
+    private _listeners: Set<(state: T, prev: T) => void> = new Set();
+
+    constructor(initialState: T) {
+        this._state = initialState;
+    }
+
+    /**
+     * @description
+     * Получает текущее состояние.
+     */
+    public getState(): T {
+        return this._state;
+    }
+
+    /**
+     * @description
+     * Обновляет состояние, объединяя его с результатом updater, и оповещает подписчиков.
+     */
+    public update(updater: (state: T) => Partial<T>): void {
+        const prev = this._state;
+        this._state = { ...prev, ...updater(prev) };
+
+        this._listeners.forEach(listener => listener(this._state, prev));
+    }
+
+    /**
+     * @description
+     * Подписывается на изменения состояния.
+     * 
+     * @returns Функция отписки.
+     */
+    public subscribe(listener: (state: T, prev: T) => void): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+}
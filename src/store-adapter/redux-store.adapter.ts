@@ -0,0 +1,59 @@
+import { IReduxStoreLike } from "./models";
+import { TrackedStoreAdapter } from "./tracked-store.adapter";
+
+/**
+ * Тип action, которым адаптер обновляет Redux Store по-умолчанию.
+ */
+export const FSM_UPDATE_ACTION = '@@empress-fsm/UPDATE';
+
+/**
+ * @description
+ * Оборачивает reducer так, чтобы он обрабатывал action обновления от ReduxStoreAdapter,
+ * объединяя состояние с переданными данными.
+ * 
+ * @param reducer Исходный reducer.
+ */
+export function withFSMUpdates<T extends object>(
+    reducer: (state: T | undefined, action: any) => T
+): (state: T | undefined, action: any) => T {
+    return (state, action) => {
+        if(action?.type === FSM_UPDATE_ACTION) {
+            return { ...state, ...action.payload } as T;
+        }
+
+        return reducer(state, action);
+    };
+}
+
+/**
+ * @description
+ * Адаптер для Store в стиле Redux (getState/dispatch/subscribe).
+ * Обновление выполняется через dispatch action, по-умолчанию с типом FSM_UPDATE_ACTION,
+ * который обрабатывает reducer, обернутый в withFSMUpdates().
+ */
+export class ReduxStoreAdapter<T extends object> extends TrackedStoreAdapter<T, IReduxStoreLike<T>> {
+
+    /**
+     * @param store Redux Store.
+     * @param _createUpdateAction Создает action обновления из частичного состояния.
+     * Необязательный параметр, по-умолчанию создается action с типом FSM_UPDATE_ACTION.
+     */
+    constructor(
+        store: IReduxStoreLike<T>,
+        private _createUpdateAction: (partial: Partial<T>) => any = partial => ({ type: FSM_UPDATE_ACTION, payload: partial })
+    ) {
+        super(store);
+    }
+
+    protected readState(): T {
+        return this._store.getState();
+    }
+
+    protected writeState(partial: Partial<T>): void {
+        this._store.dispatch(this._createUpdateAction(partial));
+    }
+
+    protected subscribeStore(listener: () => void): () => void {
+        return this._store.subscribe(listener);
+    }
+}
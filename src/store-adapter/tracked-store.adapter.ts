@@ -0,0 +1,85 @@
+import { IStoreAdapter } from "./models";
+
+/**
+ * @description
+ * Базовый адаптер для сторонних Store, который сам отслеживает предыдущее состояние,
+ * если Store его не предоставляет. Состояние Store считается иммутабельным:
+ * изменением считается смена ссылки на объект состояния.
+ * 
+ * @template T - Тип данных состояния
+ * @template K - Тип адаптируемого Store
+ */
+export abstract class TrackedStoreAdapter<T extends object, K> implements IStoreAdapter<T, K> {
+
+    public get store(): K {
+        return this._store;
+    }
+
+    private _current: T;
+    private _prev: T;
+    private _listeners: Set<(state: T, prev: T) => void> = new Set();
+    private _unsubscribeStore: () => void;
+
+    constructor(protected _store: K) {
+        this._current = this.readState();
+        this._prev = this._current;
+
+        this._unsubscribeStore = this.subscribeStore(() => this.handleChange());
+    }
+
+    /**
+     * @description
+     * Получает текущее состояние Store.
+     */
+    public getState(): T {
+        return this.readState();
+    }
+
+    /**
+     * @description
+     * Получает предыдущее состояние Store.
+     */
+    public getPrevState(): T {
+        return this._prev;
+    }
+
+    /**
+     * @description
+     * Обновляет состояние Store.
+     */
+    public update(updater: (state: T) => Partial<T>): void {
+        this.writeState(updater(this.readState()));
+    }
+
+    /**
+     * @description
+     * Подписывается на изменения Store.
+     */
+    public subscribe(listener: (state: T, prev: T) => void): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    /**
+     * @description
+     * Отписывает всех слушателей, подписанных через адаптер, и сам адаптер от Store.
+     */
+    public unsubscribe(): void {
+        this._listeners.clear();
+        this._unsubscribeStore();
+    }
+
+    protected abstract readState(): T;
+    protected abstract writeState(partial: Partial<T>): void;
+    protected abstract subscribeStore(listener: () => void): () => void;
+
+    private handleChange(): void {
+        const next = this.readState();
+        if(next === this._current) return;
+
+        this._prev = this._current;
+        this._current = next;
+
+        this._listeners.forEach(listener => listener(this._current, this._prev));
+    }
+}
@@ -0,0 +1,21 @@
+import { IZustandStoreLike } from "./models";
+import { TrackedStoreAdapter } from "./tracked-store.adapter";
+
+/**
+ * @description
+ * Адаптер для Store в стиле Zustand (getState/setState/subscribe).
+ */
+export class ZustandStoreAdapter<T extends object> extends TrackedStoreAdapter<T, IZustandStoreLike<T>> {
+
+    protected readState(): T {
+        return this._store.getState();
+    }
+
+    protected writeState(partial: Partial<T>): void {
+        this._store.setState(partial);
+    }
+
+    protected subscribeStore(listener: () => void): () => void {
+        return this._store.subscribe(() => listener());
+    }
+}
@@ -0,0 +1,114 @@
+import { GroupType } from "empress-core";
+import { IExecutionControllerLike } from "../fsm/";
+import { IExecutionRecord } from "./models";
+
+/**
+ * @description
+ * Подмена ExecutionController для тестов.
+ * Не запускает Группы Систем, а записывает, какие Группы и в каком порядке были запущены.
+ * Позволяет смоделировать ошибку в Группе через fail().
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const { fsm, controller } = createTestFSM(builder);
+ * await fsm.start();
+ * 
+ * expect(controller.groups).toEqual(['LoadAssetsGroup']);
+ * ```
+ */
+export class FakeExecutionController implements IExecutionControllerLike {
+
+    /**
+     * @description
+     * Запущенные выполнения в порядке запуска.
+     */
+    public get executions(): IExecutionRecord[] {
+        return this._executions;
+    }
+
+    /**
+     * @description
+     * Имена запущенных Групп Систем в порядке запуска.
+     */
+    public get groups(): string[] {
+        return this._executions.flatMap(execution => execution.groups);
+    }
+
+    /**
+     * @description
+     * Идентификаторы остановленных выполнений.
+     */
+    public get stopped(): string[] {
+        return this._stopped;
+    }
+
+    /**
+     * @description
+     * Идентификаторы приостановленных и еще не возобновленных выполнений.
+     */
+    public get paused(): string[] {
+        return [...this._paused];
+    }
+
+    private _nextId: number = 1;
+    private _created: Map<string, IExecutionRecord> = new Map();
+    private _executions: IExecutionRecord[] = [];
+    private _stopped: string[] = [];
+    private _paused: Set<string> = new Set();
+    private _failures: Map<string, unknown> = new Map();
+
+    /**
+     * @description
+     * Задает ошибку, с которой будет завершаться выполнение, содержащее указанную Группу.
+     * 
+     * @param group Группа Систем или ее имя.
+     * @param error Ошибка. По-умолчанию Error с именем Группы.
+     */
+    public fail(group: GroupType<any> | string, error?: unknown): this {
+        const name = typeof group === 'string' ? group : group.name;
+        this._failures.set(name, error ?? new Error('Group ' + name + ' failed'));
+        return this;
+    }
+
+    public create(groups: GroupType<any>[], data: any, name: string): string {
+        const id = String(this._nextId++);
+        this._created.set(id, { id, name, groups: groups.map(group => group.name), data });
+        return id;
+    }
+
+    public run(id: string, _await: boolean = true): Promise<void> {
+        const execution = this._created.get(id);
+        if(!execution) return Promise.resolve();
+
+        this._created.delete(id);
+        this._executions.push(execution);
+
+        const failed = execution.groups.find(group => this._failures.has(group));
+        return failed ? Promise.reject(this._failures.get(failed)) : Promise.resolve();
+    }
+
+    public stop(id: string): void {
+        id && this._stopped.push(id);
+    }
+
+    public pause(id: string): void {
+        id && this._paused.add(id);
+    }
+
+    public resume(id: string): void {
+        this._paused.delete(id);
+    }
+
+    /**
+     * @description
+     * Очищает записанные выполнения и заданные ошибки.
+     */
+    public clear(): void {
+        this._created.clear();
+        this._executions = [];
+        this._stopped = [];
+        this._paused.clear();
+        this._failures.clear();
+    }
+}
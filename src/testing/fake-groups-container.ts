@@ -0,0 +1,19 @@
+import { GroupType, SystemGroup } from "empress-core";
+import { IGroupsContainerLike } from "../fsm/";
+
+/**
+ * @description
+ * Подмена GroupsContainer для тестов.
+ * Хранит Группы цепочек onEnter/onExit, зарегистрированные автоматом, без ServiceContainer.
+ */
+export class FakeGroupsContainer implements IGroupsContainerLike {
+    private _groups: Map<GroupType<any>, SystemGroup<any>> = new Map();
+
+    public set(group: GroupType<any>, instance: SystemGroup<any>): void {
+        this._groups.set(group, instance);
+    }
+
+    public get(group: GroupType<any>): SystemGroup<any> | undefined {
+        return this._groups.get(group);
+    }
+}
@@ -0,0 +1,155 @@
+import { IFSM } from "../fsm/";
+import { FSMBuilder } from "../builder/";
+import { ManualClock } from "../clock/";
+import { FakeExecutionController } from "./fake-execution-controller";
+import { FakeGroupsContainer } from "./fake-groups-container";
+import { IScenarioResult, ITestFSM, ITestFSMOptions, ScenarioStep } from "./models";
+
+/**
+ * @description
+ * Собирает автомат для тестов без настройки ServiceContainer:
+ * вместо ExecutionController используется FakeExecutionController, вместо GroupsContainer - FakeGroupsContainer,
+ * вместо системных часов - ManualClock.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const { fsm, controller, clock } = createTestFSM(builder);
+ * await fsm.start();
+ * ```
+ * 
+ * @param builder Билдер автомата.
+ * @param options Общие контроллер, контейнер и часы, например для подсостояний.
+ */
+export function createTestFSM<T extends object, S extends string = string, E extends string = string>(
+    builder: FSMBuilder<T, S, E>,
+    options: ITestFSMOptions = {}
+): ITestFSM<T, S, E> {
+    const controller = options.controller ?? new FakeExecutionController();
+    const container = options.container ?? new FakeGroupsContainer();
+    const clock = options.clock ?? new ManualClock();
+
+    const fsm = builder
+        .executionController(controller)
+        .groupsContainer(container)
+        .clock(clock)
+        .build();
+
+    return { fsm, controller, container, clock };
+}
+
+/**
+ * @description
+ * Дожидается, пока автомат завершит текущий переход и все переходы, вызванные им.
+ * 
+ * @param fsm Автомат.
+ */
+export async function settle(fsm: IFSM<any, any, any>): Promise<void> {
+    let last = '';
+
+    for(let i = 0; i < 100; i++) {
+        await fsm.waitForTransition();
+        await flushMicrotasks();
+
+        const current = fsm.currentState + ':' + fsm.history.length;
+        if(current === last) return;
+        last = current;
+    }
+}
+
+/**
+ * @description
+ * Дает выполниться отложенным промисам, не используя таймеры,
+ * чтобы не зависеть от подмены таймеров в тестах.
+ */
+async function flushMicrotasks(count: number = 10): Promise<void> {
+    for(let i = 0; i < count; i++) await Promise.resolve();
+}
+
+/**
+ * @description
+ * Последовательно применяет обновления Store, дожидаясь переходов после каждого из них.
+ * 
+ * @param fsm Автомат.
+ * @param updates Обновления Store: частичные данные или функции обновления.
+ */
+export async function driveStore<T extends object>(
+    fsm: IFSM<T, any, any>, 
+    updates: (Partial<T> | ((state: T) => Partial<T>))[]
+): Promise<void> {
+    for(const update of updates) {
+        await fsm.update(typeof update === 'function' ? update : () => update);
+        await settle(fsm);
+    }
+}
+
+/**
+ * @description
+ * Проверяет, что при последнем выходе из состояния from автомат перешел в состояние to.
+ * Выбрасывает ошибку, если такого перехода не было.
+ * 
+ * @param fsm Автомат.
+ * @param from Исходное состояние.
+ * @param to Ожидаемое целевое состояние.
+ */
+export function expectTransition<S extends string>(fsm: IFSM<any, S, any>, from: S, to: S): void {
+    const record = [...fsm.history].reverse().find(record => record.from === from);
+
+    if(!record) {
+        throw new Error('Expected transition from ' + from + ' to ' + to + ', but ' + fsm.name + ' never left ' + from);
+    }
+
+    if(record.to !== to) {
+        throw new Error('Expected transition from ' + from + ' to ' + to + ', but ' + fsm.name + ' moved to ' + record.to);
+    }
+}
+
+/**
+ * @description
+ * Запускает автомат и выполняет сценарий шаг за шагом.
+ * Каждый шаг выполняется только после завершения переходов, вызванных предыдущим,
+ * а время продвигается через ManualClock, поэтому сценарий детерминирован.
+ * 
+ * @example
+ * 
+ * ```typescript
+ * const result = await runScenario(createTestFSM(builder), [
+ *     { update: { connected: true } },
+ *     { expect: 'loading' },
+ *     { tick: 1000 },
+ *     { expect: 'main' }
+ * ]);
+ * ```
+ * 
+ * @param test Тестовый автомат.
+ * @param steps Шаги сценария.
+ * @returns Состояния после каждого шага и запущенные Группы Систем.
+ */
+export async function runScenario<T extends object, S extends string = string, E extends string = string>(
+    test: ITestFSM<T, S, E>,
+    steps: ScenarioStep<T, S, E>[]
+): Promise<IScenarioResult<S>> {
+    const { fsm, clock, controller } = test;
+    const states: S[] = [];
+
+    await fsm.start();
+    await settle(fsm);
+
+    for(let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+
+        if('update' in step) await driveStore(fsm, [step.update]);
+        if('send' in step) await fsm.send(step.send, step.payload);
+        if('tick' in step) await clock.tick(step.tick);
+
+        await settle(fsm);
+
+        if('expect' in step && fsm.currentState !== step.expect) {
+            throw new Error('Step ' + i + ': expected ' + fsm.name + ' to be in ' + step.expect + ', but it is in ' + fsm.currentState);
+        }
+
+        states.push(fsm.currentState);
+    }
+
+    return { states, groups: controller.groups };
+}
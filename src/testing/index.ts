@@ -0,0 +1,4 @@
+export * from './models';
+export * from './fake-execution-controller';
+export * from './fake-groups-container';
+export * from './fsm-testing';
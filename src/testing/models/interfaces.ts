@@ -0,0 +1,55 @@
+import { IFSM } from '../../fsm/';
+import { ManualClock } from '../../clock/';
+import { FakeExecutionController } from '../fake-execution-controller';
+import { FakeGroupsContainer } from '../fake-groups-container';
+
+/**
+ * Запись о запуске Групп Систем в FakeExecutionController.
+ */
+export interface IExecutionRecord {
+    id: string;
+    name: string;
+    /**
+     * Имена Групп Систем в порядке запуска.
+     */
+    groups: string[];
+    data: any;
+}
+
+/**
+ * Автомат, собранный для тестов, вместе с подменами ExecutionController, GroupsContainer и часами.
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export interface ITestFSM<T extends object, S extends string = string, E extends string = string> {
+    fsm: IFSM<T, S, E>;
+    controller: FakeExecutionController;
+    container: FakeGroupsContainer;
+    clock: ManualClock;
+}
+
+/**
+ * Параметры сборки тестового автомата.
+ * Позволяют использовать общие контроллер, контейнер и часы для автомата и его подсостояний.
+ */
+export interface ITestFSMOptions {
+    controller?: FakeExecutionController;
+    container?: FakeGroupsContainer;
+    clock?: ManualClock;
+}
+
+/**
+ * Результат выполнения сценария.
+ * @template S - Тип имен состояний
+ */
+export interface IScenarioResult<S extends string = string> {
+    /**
+     * Состояния автомата после каждого шага сценария.
+     */
+    states: S[];
+    /**
+     * Имена запущенных Групп Систем в порядке запуска.
+     */
+    groups: string[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Шаг сценария тестового автомата.
+ * - update: обновляет Store
+ * - send: отправляет событие
+ * - tick: продвигает часы автомата
+ * - expect: проверяет текущее состояние автомата
+ * @template T - Тип данных состояния
+ * @template S - Тип имен состояний
+ * @template E - Тип имен событий
+ */
+export type ScenarioStep<T extends object, S extends string = string, E extends string = string> = 
+    { update: Partial<T> | ((state: T) => Partial<T>) } | 
+    { send: E, payload?: unknown } | 
+    { tick: number } | 
+    { expect: S };
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisIssueType, AnalysisSeverity } from '../../src';
+import { createTestFSM } from '../../src/testing';
+import { createBuilder, group } from '../helpers';
+
+describe('FSMBuilder', () => {
+    it('throws when initial state does not exist', () => {
+        const builder = createBuilder().initialState('missing').state('idle');
+
+        expect(() => builder.buildConfig()).toThrow('State missing cannot be initial state, because it does not exist!');
+    });
+
+    it('throws when transition target does not exist', () => {
+        const builder = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .transition('missing', () => true);
+
+        expect(() => builder.buildConfig()).toThrow('Can\'t transit to missing from idle because it does not exist!');
+    });
+
+    it('builds onEnter groups in order', () => {
+        const First = group('First');
+        const Second = group('Second');
+        const Third = group('Third');
+
+        const config = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .onEnterGroup(Second, 'second')
+                .onEnterGroupToStart(First)
+                .onEnterGroupAfter('second', Third)
+                .final()
+            .buildConfig();
+
+        expect(config.states[0].onEnter).toEqual([First, Second, Third]);
+    });
+
+    it('adds transition actions to the last transition', () => {
+        const Fade = group('Fade');
+        const Sound = group('Sound');
+
+        const builder = createBuilder()
+            .initialState('menu')
+            .state('menu')
+                .transition('game', state => state.connected).do(Fade).do(Sound)
+                .on('start', 'game')
+            .state('game')
+                .final();
+        const config = builder.buildConfig();
+
+        expect(config.states[0].transitions?.[0].actions).toEqual([Fade, Sound]);
+        expect(config.states[0].transitions?.[1].actions).toBeUndefined();
+        expect(() => createBuilder().state('menu').transition('game', () => true).do(Fade).doChain(() => {}))
+            .toThrow('Actions of transition to game has both chains and groups!');
+    });
+
+    it('reports unreachable, dead-end states and duplicate transitions', () => {
+        const report = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .transition('main', state => state.connected)
+                .transition('main', state => state.connected)
+            .state('main')
+            .state('orphan')
+                .final()
+            .analyze();
+
+        expect(report.valid).toBe(true);
+        expect(report.issues.map(issue => [issue.type, issue.state])).toEqual([
+            [AnalysisIssueType.Unreachable, 'orphan'],
+            [AnalysisIssueType.DeadEnd, 'main'],
+            [AnalysisIssueType.DuplicateTransition, 'idle']
+        ]);
+    });
+
+    it('rejects sub-states bubbling to unknown parent state', () => {
+        const child = createTestFSM(
+            createBuilder('child')
+                .initialState('a')
+                .state('a')
+                    .bubble('missing')
+        ).fsm;
+        const builder = createBuilder('parent')
+            .initialState('game')
+            .state('game')
+                .subStates(child)
+                .final();
+
+        expect(builder.analyze().issues).toEqual([expect.objectContaining({ 
+            type: AnalysisIssueType.UnknownBubbleTarget, 
+            severity: AnalysisSeverity.Error, 
+            state: 'game' 
+        })]);
+        expect(() => builder.buildConfig()).toThrow('Sub-states of state game bubble to missing, which does not exist');
+    });
+
+    it('reports chain and groups in the same lifecycle as error', () => {
+        const builder = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .onEnterGroup(group('Group'))
+                .onEnterChain(() => {})
+                .final();
+
+        const report = builder.analyze();
+
+        expect(report.valid).toBe(false);
+        expect(report.issues[0]).toMatchObject({ 
+            type: AnalysisIssueType.ActionsConflict, 
+            severity: AnalysisSeverity.Error 
+        });
+        expect(() => builder.buildConfig()).toThrow('OnEnter actions for state idle has both chains and groups!');
+    });
+
+    it('throws on warnings in strict mode only', () => {
+        const builder = createBuilder()
+            .initialState('idle')
+            .state('idle');
+
+        expect(() => builder.buildConfig()).not.toThrow();
+        expect(() => builder.strict().buildConfig()).toThrow('State idle is not final, but has no transitions');
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../../src';
+
+describe('ManualClock', () => {
+    it('fires timers in order of their time', async () => {
+        const clock = new ManualClock();
+        const fired: string[] = [];
+
+        clock.setTimeout(() => fired.push('late'), 200);
+        clock.setTimeout(() => fired.push('early'), 100);
+        const handle = clock.setTimeout(() => fired.push('cleared'), 150);
+        clock.clearTimeout(handle);
+
+        await clock.tick(150);
+        expect(fired).toEqual(['early']);
+
+        await clock.tick(50);
+        expect(fired).toEqual(['early', 'late']);
+        expect(clock.now).toBe(200);
+    });
+
+    it('fires timers registered by callbacks within the same tick', async () => {
+        const clock = new ManualClock();
+        const fired: number[] = [];
+
+        clock.setTimeout(async () => {
+            await Promise.resolve();
+            fired.push(clock.now);
+            clock.setTimeout(() => fired.push(clock.now), 300);
+        }, 300);
+
+        clock.tick(500);
+        await clock.tick(500);
+
+        expect(fired).toEqual([300, 600]);
+        expect(clock.now).toBe(1000);
+    });
+});
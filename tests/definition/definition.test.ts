@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DefinitionRegistry, FSMDefinitionLoader, FSMDefinitionSerializer, IFSMDefinition, ManualClock } from '../../src';
+import { FakeExecutionController, FakeGroupsContainer, createTestFSM } from '../../src/testing';
+import { createStore, group, ITestStore } from '../helpers';
+
+const LoadGroup = group('LoadGroup');
+
+const connected = (state: ITestStore) => state.connected;
+const hasScore = (state: ITestStore, score: number) => state.score >= score;
+
+const definition: IFSMDefinition = {
+    name: 'game',
+    initialState: 'connection',
+    states: [
+        { name: 'connection', transitions: [{ to: 'loading', condition: 'connected', name: 'connected' }] },
+        { name: 'loading', onEnter: ['LoadGroup'], transitions: [{ to: 'main', event: 'loaded', condition: 'hasScore' }] },
+        { name: 'main', final: true }
+    ]
+};
+
+function createRegistry(): DefinitionRegistry {
+    return new DefinitionRegistry()
+        .condition('connected', connected)
+        .condition('hasScore', hasScore)
+        .group('LoadGroup', LoadGroup);
+}
+
+describe('definition', () => {
+    it('loads definition into config', () => {
+        const config = new FSMDefinitionLoader<ITestStore>(createRegistry()).load(definition, createStore());
+
+        expect(config.initialState).toBe('connection');
+        expect(config.states[0].transitions?.[0]).toMatchObject({ to: 'loading', condition: connected, name: 'connected' });
+        expect(config.states[1].onEnter).toEqual([LoadGroup]);
+        expect(config.states[1].transitions?.[0]).toMatchObject({ event: 'loaded', guard: hasScore });
+    });
+
+    it('serializes loaded config back to definition', () => {
+        const registry = createRegistry();
+        const config = new FSMDefinitionLoader<ITestStore>(registry).load(definition, createStore());
+
+        const serialized = new FSMDefinitionSerializer(registry).serialize(config);
+
+        expect(JSON.parse(JSON.stringify(serialized))).toEqual(definition);
+    });
+
+    it('keeps priority of event, delayed and done transitions', () => {
+        const registry = createRegistry();
+        const prioritized: IFSMDefinition = {
+            name: 'game',
+            initialState: 'loading',
+            states: [
+                { 
+                    name: 'loading', 
+                    subStates: { name: 'assets', initialState: 'textures', states: [{ name: 'textures', final: true }] },
+                    transitions: [
+                        { to: 'main', event: 'loaded', priority: 2 },
+                        { to: 'main', delay: 100, priority: 3 },
+                        { to: 'main', done: true, priority: 4 }
+                    ] 
+                },
+                { name: 'main', final: true }
+            ]
+        };
+        const config = new FSMDefinitionLoader<ITestStore>(registry).load(prioritized, createStore());
+
+        const serialized = new FSMDefinitionSerializer(registry).serialize(config);
+
+        expect(JSON.parse(JSON.stringify(serialized))).toEqual(prioritized);
+    });
+
+    it('throws on unregistered names', () => {
+        const loader = new FSMDefinitionLoader<ITestStore>(new DefinitionRegistry());
+
+        expect(() => loader.load(definition, createStore())).toThrow('Condition connected is not registered!');
+    });
+
+    it('passes execution controller, groups container and clock to nested machines', async () => {
+        const options = { controller: new FakeExecutionController(), container: new FakeGroupsContainer(), clock: new ManualClock() };
+        const loader = new FSMDefinitionLoader<ITestStore>(createRegistry(), {
+            executionController: options.controller,
+            groupsContainer: options.container,
+            clock: options.clock
+        });
+        const nested: IFSMDefinition = {
+            name: 'game',
+            initialState: 'loading',
+            states: [{ 
+                name: 'loading', 
+                subStates: { name: 'assets', initialState: 'textures', states: [{ name: 'textures', onEnter: ['LoadGroup'] }] } 
+            }]
+        };
+
+        const { fsm, controller } = createTestFSM(loader.toBuilder(nested, createStore()), options);
+        await fsm.start();
+
+        expect(controller.groups).toEqual(['LoadGroup']);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { toDot, toMermaid } from '../../src';
+import { createBuilder, group } from '../helpers';
+
+function createConfig() {
+    return createBuilder()
+        .initialState('connection')
+        .state('connection')
+            .transition('main-menu', state => state.connected)
+            .label('connected')
+        .state('main-menu')
+            .onEnterGroup(group('MenuGroup'))
+            .on('play', 'game')
+        .state('game')
+            .final()
+        .buildConfig();
+}
+
+describe('diagram', () => {
+    it('renders mermaid state diagram', () => {
+        expect(toMermaid(createConfig()).split('\n')).toEqual([
+            'stateDiagram-v2',
+            '    [*] --> connection',
+            '    connection --> main_menu : connected',
+            '    state "main-menu" as main_menu',
+            '    main_menu : MenuGroup',
+            '    main_menu --> game : play',
+            '    game --> [*]'
+        ]);
+    });
+
+    it('renders dot graph', () => {
+        const dot = toDot(createConfig());
+
+        expect(dot).toContain('"__start" -> "connection";');
+        expect(dot).toContain('"connection" -> "main_menu" [label="connected"];');
+        expect(dot).toContain('"main_menu" [label="main-menu\\nMenuGroup"];');
+        expect(dot).toContain('"game" [label="game", peripheries=2];');
+    });
+
+    it('marks internal transitions', () => {
+        const config = createBuilder()
+            .initialState('game')
+            .state('game')
+                .internalOn('tick', [group('TickGroup')])
+                .reenter(state => state.score > 10)
+                .label('restart')
+            .buildConfig();
+
+        expect(toMermaid(config)).toContain('    game --> game : tick (internal)');
+        expect(toMermaid(config)).toContain('    game --> game : restart');
+        expect(toDot(config)).toContain('"game" -> "game" [label="tick (internal)", style=dashed];');
+        expect(toDot(config)).toContain('"game" -> "game" [label="restart"];');
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { FSMRegistry } from '../../src';
+import { createTestFSM, settle } from '../../src/testing';
+import { createBuilder } from '../helpers';
+
+function createIdleFSM(name: string) {
+    return createTestFSM(
+        createBuilder(name)
+            .initialState('idle')
+            .state('idle')
+                .on('finish', 'done')
+            .state('done')
+                .final()
+    ).fsm;
+}
+
+describe('FSMRegistry', () => {
+    it('rejects duplicate names and unknown parents', () => {
+        const registry = new FSMRegistry();
+        registry.register(createIdleFSM('level'));
+
+        expect(() => registry.register(createIdleFSM('level'))).toThrow('FSM level is already registered!');
+        expect(() => registry.register(createIdleFSM('enemy'), 'boss')).toThrow('Parent FSM boss is not registered!');
+    });
+
+    it('spawns children and kills them with parent', async () => {
+        const registry = new FSMRegistry();
+        const level = registry.register(createIdleFSM('level'));
+        await level.start();
+
+        const enemy = await registry.spawn('enemy', createIdleFSM, 'level');
+        await registry.spawn('boss', createIdleFSM, 'enemy');
+        expect(registry.children('level')).toEqual([enemy]);
+
+        await registry.kill('level');
+
+        expect([...registry.machines.keys()]).toEqual([]);
+        expect(await enemy.send('finish')).toBe(false);
+    });
+
+    it('rejects spawned FSM with another name', async () => {
+        const registry = new FSMRegistry();
+
+        await expect(registry.spawn('enemy', () => createIdleFSM('boss'))).rejects.toThrow();
+        expect(registry.has('enemy')).toBe(false);
+    });
+
+    it('removes machines that stop or complete on their own', async () => {
+        const registry = new FSMRegistry();
+        const level = registry.register(createIdleFSM('level'));
+        await level.start();
+
+        const enemy = await registry.spawn('enemy', createIdleFSM, 'level');
+        const boss = await registry.spawn('boss', createIdleFSM, 'level');
+        await registry.spawn('minion', createIdleFSM, 'boss');
+
+        await registry.send('enemy', 'finish');
+        await enemy.done;
+        await settle(enemy);
+        expect(registry.has('enemy')).toBe(false);
+        expect(registry.children('level')).toEqual([boss]);
+
+        await boss.stop();
+        await settle(boss);
+        expect(registry.has('boss')).toBe(false);
+        expect(registry.has('minion')).toBe(false);
+        expect(registry.children('level')).toEqual([]);
+    });
+
+    it('keeps children when parent restarts', async () => {
+        const registry = new FSMRegistry();
+        const level = registry.register(createIdleFSM('level'));
+        await level.start();
+
+        const enemy = await registry.spawn('enemy', createIdleFSM, 'level');
+        await level.start();
+        await settle(level);
+
+        expect(registry.children('level')).toEqual([enemy]);
+        expect(await registry.send('enemy', 'finish')).toBe(true);
+    });
+
+    it('sends and broadcasts events', async () => {
+        const registry = new FSMRegistry();
+        const level = registry.register(createIdleFSM('level'));
+        await level.start();
+        const first = await registry.spawn('first', createIdleFSM, 'level');
+        const second = await registry.spawn('second', createIdleFSM, 'level');
+
+        await expect(registry.send('unknown', 'finish')).rejects.toThrow('FSM unknown is not registered!');
+
+        await registry.broadcast('finish', undefined, 'level');
+
+        expect(first.currentState).toBe('done');
+        expect(second.currentState).toBe('done');
+        expect(level.currentState).toBe('idle');
+    });
+
+    it('pauses, resumes and kills all machines', async () => {
+        const registry = new FSMRegistry();
+        const level = registry.register(createIdleFSM('level'));
+        await level.start();
+        const enemy = await registry.spawn('enemy', createIdleFSM, 'level');
+
+        registry.pauseAll();
+        expect(level.isPaused).toBe(true);
+        expect(enemy.isPaused).toBe(true);
+
+        await registry.resumeAll();
+        expect(enemy.isPaused).toBe(false);
+
+        await registry.killAll();
+        expect(registry.machines.size).toBe(0);
+    });
+});
@@ -0,0 +1,1036 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ErrorPolicy, FSM, HistoryType, ManualClock, QueuePolicy, TransitionStrategy } from '../../src';
+import { FakeExecutionController, FakeGroupsContainer, createTestFSM, driveStore, settle } from '../../src/testing';
+import { createBuilder, createStore, group } from '../helpers';
+
+const ConnectGroup = group('ConnectGroup');
+const LoadGroup = group('LoadGroup');
+const MainGroup = group('MainGroup');
+
+/**
+ * Оставляет выполнение, содержащее Группу, незавершенным, пока не будет вызвана возвращенная функция.
+ */
+function holdGroup(controller: FakeExecutionController, group: { name: string }): () => void {
+    let release = () => {};
+    const run = controller.run.bind(controller);
+
+    vi.spyOn(controller, 'run').mockImplementation((id, wait) => {
+        const result = run(id, wait);
+        const last = controller.executions[controller.executions.length - 1];
+        return last?.groups.includes(group.name) ? new Promise<void>(resolve => release = resolve) : result;
+    });
+
+    return () => release();
+}
+
+function createLoadingBuilder() {
+    return createBuilder()
+        .initialState('connection')
+        .state('connection')
+            .onEnterGroup(ConnectGroup)
+            .transition('loading', state => state.connected)
+        .state('loading')
+            .onEnterGroup(LoadGroup)
+            .transition('main', state => state.loaded)
+        .state('main')
+            .onEnterGroup(MainGroup)
+            .final();
+}
+
+describe('FSM', () => {
+    it('enters initial state on start', async () => {
+        const { fsm, controller } = createTestFSM(createLoadingBuilder());
+
+        await fsm.start();
+
+        expect(fsm.currentState).toBe('connection');
+        expect(controller.groups).toEqual(['ConnectGroup']);
+    });
+
+    it('transits by store conditions', async () => {
+        const { fsm, controller } = createTestFSM(createLoadingBuilder());
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(fsm.currentState).toBe('loading');
+        expect(controller.groups).toEqual(['ConnectGroup', 'LoadGroup']);
+    });
+
+    it('checks transitions with higher priority first', async () => {
+        const builder = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .transition('low', state => state.score > 0)
+                .transition('high', state => state.score > 0, 10)
+            .state('low')
+            .state('high');
+        const { fsm } = createTestFSM(builder);
+
+        await fsm.start();
+        await driveStore(fsm, [{ score: 1 }]);
+
+        expect(fsm.currentState).toBe('high');
+    });
+
+    it('transits by events with guards', async () => {
+        const builder = createBuilder()
+            .initialState('idle')
+            .state('idle')
+                .on('hit', 'dead', (_, damage: number) => damage >= 10)
+            .state('dead');
+        const { fsm } = createTestFSM(builder);
+
+        await fsm.start();
+
+        expect(await fsm.send('hit', 5)).toBe(false);
+        expect(await fsm.send('hit', 10)).toBe(true);
+        expect(fsm.currentState).toBe('dead');
+    });
+
+    it('transits after delay on clock tick', async () => {
+        const builder = createBuilder()
+            .initialState('splash')
+            .state('splash')
+                .after(1000, 'menu')
+            .state('menu');
+        const { fsm, clock } = createTestFSM(builder);
+
+        await fsm.start();
+        await clock.tick(999);
+        expect(fsm.currentState).toBe('splash');
+
+        await clock.tick(1);
+        expect(fsm.currentState).toBe('menu');
+    });
+
+    it('chains delayed transitions within one tick', async () => {
+        const builder = createBuilder()
+            .initialState('intro')
+            .state('intro')
+                .after(300, 'splash')
+            .state('splash')
+                .after(300, 'menu')
+            .state('menu')
+                .after(500, 'idle')
+            .state('idle');
+        const { fsm, clock } = createTestFSM(builder);
+
+        await fsm.start();
+        await clock.tick(1000);
+
+        expect(fsm.currentState).toBe('menu');
+        expect(clock.now).toBe(1000);
+
+        await clock.tick(100);
+        expect(fsm.currentState).toBe('idle');
+    });
+
+    it('stops and resolves done promise in final state', async () => {
+        const onDone = vi.fn();
+        const { fsm } = createTestFSM(createLoadingBuilder().hooks({ onDone }));
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }, { loaded: true }]);
+
+        await expect(fsm.done).resolves.toMatchObject({ fsmName: 'test', state: 'main' });
+        expect(onDone).toHaveBeenCalledTimes(1);
+        expect(fsm.isFinal).toBe(true);
+    });
+
+    it('returns to previous state when onEnter fails with ErrorPolicy.Previous', async () => {
+        const onError = vi.fn();
+        const builder = createLoadingBuilder()
+            .defaultErrorPolicy(ErrorPolicy.Previous)
+            .hooks({ onError });
+        const { fsm, controller } = createTestFSM(builder);
+        controller.fail(LoadGroup);
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(fsm.currentState).toBe('connection');
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ from: 'connection', to: 'loading' }));
+    });
+
+    it('moves to error state when onEnter fails with ErrorPolicy.ErrorState', async () => {
+        const builder = createLoadingBuilder()
+            .state('error')
+            .defaultErrorPolicy(ErrorPolicy.ErrorState)
+            .defaultErrorState('error');
+        const { fsm, controller } = createTestFSM(builder);
+        controller.fail(LoadGroup);
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(fsm.currentState).toBe('error');
+    });
+
+    it('reports errors thrown by store and delayed transition conditions', async () => {
+        const errors: unknown[] = [];
+        const { fsm, clock } = createTestFSM(
+            createBuilder()
+                .initialState('idle')
+                .state('idle')
+                    .transition('broken', state => {
+                        if(state.score > 0) throw new Error('store');
+                        return false;
+                    })
+                    .after(100, 'broken', () => {
+                        throw new Error('timer');
+                    })
+                    .transition('done', state => state.connected)
+                .state('broken')
+                .state('done')
+        );
+        fsm.on('error', ({ error }) => errors.push((error as Error).message));
+
+        await fsm.start();
+        await driveStore(fsm, [{ score: 1 }]);
+        await clock.tick(100);
+        await driveStore(fsm, [{ score: 0, connected: true }]);
+
+        expect(errors).toEqual(['store', 'timer']);
+        expect(fsm.currentState).toBe('done');
+    });
+
+    it('completes when error state is final', async () => {
+        const builder = createLoadingBuilder()
+            .state('error')
+                .final()
+            .defaultErrorPolicy(ErrorPolicy.ErrorState)
+            .defaultErrorState('error');
+        const { fsm, controller } = createTestFSM(builder);
+        controller.fail(LoadGroup);
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(await fsm.done).toEqual(expect.objectContaining({ state: 'error' }));
+    });
+
+    it('emits lifecycle events in order', async () => {
+        const { fsm } = createTestFSM(createLoadingBuilder());
+        const events: string[] = [];
+
+        fsm.on('start', () => events.push('start'));
+        fsm.on('exit', ({ from }) => events.push('exit:' + from));
+        fsm.on('enter', ({ to }) => events.push('enter:' + to));
+        fsm.on('transition', ({ from, to }) => events.push(from + '->' + to));
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(events).toEqual(['enter:connection', 'start', 'exit:connection', 'enter:loading', 'connection->loading']);
+    });
+
+    it('restores state from snapshot', async () => {
+        const { fsm } = createTestFSM(createLoadingBuilder());
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+        const snapshot = fsm.snapshot();
+
+        await fsm.transitionTo('connection');
+        await fsm.restore(snapshot);
+
+        expect(fsm.currentState).toBe('loading');
+        expect(fsm.storeAdapter.getState().connected).toBe(true);
+    });
+
+    it('registers separate group for every chain', async () => {
+        const controller = new FakeExecutionController();
+        const container = new FakeGroupsContainer();
+        const create = (name: string) => createTestFSM(
+            createBuilder(name)
+                .initialState('idle')
+                .state('idle')
+                    .onEnterChain(() => {}),
+            { controller, container }
+        ).fsm;
+
+        await Promise.all([create('first').start(), create('second').start()]);
+
+        expect(controller.groups).toEqual(['WrapperGroup[first:onEnter:idle]', 'WrapperGroup[second:onEnter:idle]']);
+    });
+
+    it('reuses chain group for instances with the same name', async () => {
+        const container = new FakeGroupsContainer();
+        const set = vi.spyOn(container, 'set');
+        const create = () => createTestFSM(
+            createBuilder('reused')
+                .initialState('idle')
+                .state('idle')
+                    .onEnterChain(() => {}),
+            { container }
+        ).fsm;
+
+        await create().start();
+        await create().start();
+
+        expect(set).toHaveBeenCalledTimes(2);
+        expect(set.mock.calls[0][0]).toBe(set.mock.calls[1][0]);
+    });
+
+    it('reports failed bubble to parent as error', async () => {
+        const { fsm: parent } = createTestFSM(createLoadingBuilder());
+        const { fsm: child } = createTestFSM(
+            createBuilder('child')
+                .initialState('a')
+                .state('a')
+                    .bubble('missing')
+        );
+        const errors: unknown[] = [];
+        child.on('error', ({ error }) => errors.push(error));
+        child.setParent(parent);
+
+        await parent.start();
+        await child.start();
+        await settle(parent);
+
+        expect(errors).toEqual([new Error("State 'missing' not found")]);
+        expect(parent.currentState).toBe('connection');
+    });
+
+    it('prefers execution controller from config', async () => {
+        const ignored = new FakeExecutionController();
+        const controller = new FakeExecutionController();
+        const config = createLoadingBuilder().groupsContainer(new FakeGroupsContainer()).buildConfig();
+        const fsm = new FSM(ignored, { ...config, executionController: controller });
+
+        await fsm.start();
+
+        expect(controller.groups).toEqual(['ConnectGroup']);
+        expect(ignored.groups).toEqual([]);
+    });
+
+    it('starts and stops sub-states with parent state', async () => {
+        const store = createStore();
+        const child = createTestFSM(
+            createBuilder('child', store)
+                .initialState('a')
+                .state('a')
+                    .on('next', 'b')
+                .state('b')
+                    .bubble('main')
+        );
+        const { fsm } = createTestFSM(
+            createBuilder('parent', store)
+                .initialState('game')
+                .state('game')
+                    .subStates(child.fsm)
+                .state('main'),
+            { controller: child.controller, container: child.container, clock: child.clock }
+        );
+
+        await fsm.start();
+        expect(child.fsm.currentState).toBe('a');
+
+        await fsm.send('next');
+        await settle(fsm);
+
+        expect(fsm.currentState).toBe('main');
+    });
+
+    it('cancels pending transition on stop', async () => {
+        const store = createStore();
+        const child = createTestFSM(
+            createBuilder('child', store)
+                .initialState('a')
+                .state('a')
+        );
+        const { fsm, controller, clock } = createTestFSM(
+            createBuilder('parent', store)
+                .initialState('menu')
+                .state('menu')
+                    .on('play', 'game')
+                .state('game')
+                    .onEnterGroup(LoadGroup)
+                    .subStates(child.fsm)
+                    .after(100, 'menu'),
+            { controller: child.controller, container: child.container, clock: child.clock }
+        );
+
+        const release = holdGroup(controller, LoadGroup);
+        const started = vi.fn();
+        const transitions = vi.fn();
+        child.fsm.on('start', started);
+        fsm.on('transition', transitions);
+
+        await fsm.start();
+        const sent = fsm.send('play');
+        await vi.waitFor(() => expect(controller.groups).toContain('LoadGroup'));
+        await fsm.stop();
+
+        release();
+        await sent;
+        await clock.tick(100);
+
+        expect(started).not.toHaveBeenCalled();
+        expect(transitions).not.toHaveBeenCalled();
+        expect(fsm.history.map(record => record.to)).toEqual(['game']);
+    });
+
+    it('runs event and store transitions one at a time', async () => {
+        const store = createStore();
+        const child = createTestFSM(
+            createBuilder('child', store)
+                .initialState('a')
+                .state('a')
+        );
+        const { fsm } = createTestFSM(
+            createBuilder('parent', store)
+                .initialState('game')
+                .state('game')
+                    .subStates(child.fsm)
+                    .on('go', 'menu')
+                    .transition('loading', state => state.connected)
+                .state('menu')
+                .state('loading'),
+            { controller: child.controller, container: child.container, clock: child.clock }
+        );
+
+        await fsm.start();
+
+        const sent = fsm.send('go');
+        await driveStore(fsm, [{ connected: true }]);
+        const handled = await sent;
+        await settle(fsm);
+
+        expect(fsm.history).toHaveLength(1);
+        expect(fsm.currentState).toBe(fsm.history[0].to);
+        expect(handled).toBe(fsm.currentState === 'menu');
+    });
+
+    describe('transition strategy', () => {
+        it('resolves function strategy with predicted target', async () => {
+            const strategy = vi.fn(({ to }: { to: string }) => 
+                to === 'loading' ? TransitionStrategy.Stop : TransitionStrategy.Wait
+            );
+            const updater = vi.fn(() => ({ connected: true }));
+            const { fsm, controller } = createTestFSM(
+                createLoadingBuilder()
+                    .state('connection')
+                        .transitionStrategy(strategy)
+            );
+
+            await fsm.start();
+            await fsm.update(updater);
+            await settle(fsm);
+
+            expect(strategy).toHaveBeenCalledTimes(1);
+            expect(strategy).toHaveBeenCalledWith(expect.objectContaining({ from: 'connection', to: 'loading' }));
+            expect(controller.stopped).toEqual([controller.executions[0].id]);
+            expect(fsm.currentState).toBe('loading');
+        });
+
+        it('applies concurrent updaters to actual state after transition', async () => {
+            const { fsm, controller } = createTestFSM(createLoadingBuilder());
+            const release = holdGroup(controller, LoadGroup);
+
+            await fsm.start();
+            await fsm.update(() => ({ connected: true }));
+            await vi.waitFor(() => expect(controller.groups).toContain('LoadGroup'));
+
+            const updates = [
+                fsm.update(state => ({ score: state.score + 1 })),
+                fsm.update(state => ({ score: state.score + 1 }))
+            ];
+            release();
+            await Promise.all(updates);
+
+            expect(fsm.storeAdapter.getState().score).toBe(2);
+        });
+
+        it('waits when update does not lead to transition', async () => {
+            const strategy = vi.fn(() => TransitionStrategy.Stop);
+            const { fsm, controller } = createTestFSM(
+                createLoadingBuilder()
+                    .state('connection')
+                        .transitionStrategy(strategy)
+            );
+
+            await fsm.start();
+            await fsm.update(() => ({ score: 1 }));
+
+            expect(strategy).not.toHaveBeenCalled();
+            expect(controller.stopped).toEqual([]);
+        });
+    });
+
+    describe('queue policy', () => {
+        function createBurstFSM(policy: QueuePolicy) {
+            return createTestFSM(
+                createBuilder()
+                    .queuePolicy(policy)
+                    .initialState('idle')
+                    .state('idle')
+                        .transition('first', state => state.score > 0)
+                    .state('first')
+                        .transition('second', state => state.score > 0)
+                    .state('second')
+            ).fsm;
+        }
+
+        async function burst(policy: QueuePolicy) {
+            const fsm = createBurstFSM(policy);
+            const depths: number[] = [];
+            fsm.on('queue', ({ depth }) => depths.push(depth));
+
+            await fsm.start();
+            fsm.storeAdapter.update(() => ({ score: 1 }));
+            fsm.storeAdapter.update(() => ({ score: 2 }));
+            await settle(fsm);
+
+            return { state: fsm.currentState, depths, queueDepth: fsm.queueDepth };
+        }
+
+        it('processes every store change with QueuePolicy.Sequential', async () => {
+            expect(await burst(QueuePolicy.Sequential)).toEqual({ state: 'second', depths: [1, 2, 1, 0], queueDepth: 0 });
+        });
+
+        it('keeps only latest store change with QueuePolicy.Latest', async () => {
+            expect(await burst(QueuePolicy.Latest)).toEqual({ state: 'first', depths: [1, 1, 0], queueDepth: 0 });
+        });
+
+        it('drops store changes while transition is running with QueuePolicy.Drop', async () => {
+            const fsm = createBurstFSM(QueuePolicy.Drop);
+            const dropped: number[] = [];
+            fsm.on('queue', ({ depth, dropped: isDropped }) => isDropped && dropped.push(depth));
+            fsm.on('enter', ({ to }) => to === 'first' && fsm.storeAdapter.update(() => ({ score: 2 })));
+
+            await fsm.start();
+            fsm.storeAdapter.update(() => ({ connected: true }));
+            fsm.storeAdapter.update(() => ({ score: 1 }));
+            await settle(fsm);
+
+            expect(fsm.currentState).toBe('first');
+            expect(dropped).toEqual([0]);
+        });
+    });
+
+    describe('pause', () => {
+        it('freezes transitions until resume', async () => {
+            const { fsm, controller, clock } = createTestFSM(
+                createLoadingBuilder()
+                    .state('loading')
+                        .after(1000, 'main')
+            );
+
+            await fsm.start();
+            fsm.pause();
+
+            await driveStore(fsm, [{ connected: true }]);
+            expect(fsm.currentState).toBe('connection');
+            expect(fsm.queueDepth).toBe(1);
+            expect(controller.paused).toEqual([controller.executions[0].id]);
+
+            await fsm.resume();
+            await settle(fsm);
+            expect(fsm.currentState).toBe('loading');
+            expect(controller.paused).toEqual([]);
+
+            fsm.pause();
+            await clock.tick(1000);
+            await settle(fsm);
+            expect(fsm.currentState).toBe('loading');
+
+            await fsm.resume();
+            await settle(fsm);
+            expect(fsm.currentState).toBe('main');
+        });
+
+        it('checks queued store changes before timers fired during pause', async () => {
+            const { fsm, clock } = createTestFSM(
+                createLoadingBuilder()
+                    .state('connection')
+                        .after(100, 'main')
+            );
+
+            await fsm.start();
+            fsm.pause();
+
+            await clock.tick(100);
+            await driveStore(fsm, [{ connected: true }]);
+            await fsm.resume();
+            await settle(fsm);
+
+            expect(fsm.history.map(record => record.to)).toEqual(['loading']);
+            expect(fsm.currentState).toBe('loading');
+        });
+
+        it('delays events until resume', async () => {
+            const builder = createBuilder()
+                .initialState('idle')
+                .state('idle')
+                    .on('go', 'done')
+                .state('done');
+            const { fsm } = createTestFSM(builder);
+
+            await fsm.start();
+            fsm.pause();
+
+            const sent = fsm.send('go');
+            await settle(fsm);
+            expect(fsm.currentState).toBe('idle');
+
+            await fsm.resume();
+            expect(await sent).toBe(true);
+            expect(fsm.currentState).toBe('done');
+        });
+
+        it('restarts when started again', async () => {
+            const { fsm, controller } = createTestFSM(createLoadingBuilder());
+
+            await fsm.start();
+            await driveStore(fsm, [{ connected: true }]);
+            await fsm.start();
+
+            expect(fsm.currentState).toBe('connection');
+            expect(controller.groups).toEqual(['ConnectGroup', 'LoadGroup', 'ConnectGroup']);
+        });
+    });
+
+    describe('state context', () => {
+        it('creates context on enter and discards it on exit', async () => {
+            const builder = createBuilder()
+                .initialState('game')
+                .state('game')
+                    .context(() => ({ attempts: 0 }))
+                    .onEnterGroup(MainGroup)
+                    .onExitGroup(LoadGroup)
+                    .on('miss', 'lost', (_, __, context) => ++(context as { attempts: number }).attempts >= 2)
+                .state('lost');
+            const { fsm, controller } = createTestFSM(builder);
+
+            await fsm.start();
+            const context = fsm.context as { attempts: number };
+            expect(context).toEqual({ attempts: 0 });
+
+            expect(await fsm.send('miss')).toBe(false);
+            expect(await fsm.send('miss')).toBe(true);
+
+            const [enter, exit] = controller.executions;
+            expect(enter.data.context).toBe(context);
+            expect(exit.data.context).toBe(context);
+            expect(context.attempts).toBe(2);
+            expect(fsm.currentState).toBe('lost');
+            expect(fsm.context).toBeUndefined();
+        });
+
+        it('initializes a fresh context on every enter', async () => {
+            const factory = vi.fn((state: { score: number }) => ({ startScore: state.score }));
+            const builder = createBuilder('test', createStore({ score: 5 }))
+                .initialState('idle')
+                .state('idle')
+                    .context(factory)
+                    .on('go', 'busy')
+                .state('busy')
+                    .on('back', 'idle');
+            const { fsm } = createTestFSM(builder);
+
+            await fsm.start();
+            const first = fsm.context;
+            await fsm.send('go');
+            await fsm.send('back');
+
+            expect(factory).toHaveBeenCalledTimes(2);
+            expect(fsm.context).toEqual({ startScore: 5 });
+            expect(fsm.context).not.toBe(first);
+        });
+
+        it('passes context to store conditions', async () => {
+            const builder = createBuilder()
+                .initialState('idle')
+                .state('idle')
+                    .context(state => ({ target: state.score + 2 }))
+                    .transition('done', (state, _, __, context) => state.score >= (context as { target: number }).target)
+                .state('done');
+            const { fsm } = createTestFSM(builder);
+
+            await fsm.start();
+            await driveStore(fsm, [{ score: 1 }]);
+            expect(fsm.currentState).toBe('idle');
+
+            await driveStore(fsm, [{ score: 2 }]);
+            expect(fsm.currentState).toBe('done');
+        });
+    });
+
+    describe('self and internal transitions', () => {
+        it('re-enters the state on external self-transition', async () => {
+            const factory = vi.fn(() => ({}));
+            const builder = createBuilder()
+                .initialState('loading')
+                .state('loading')
+                    .context(factory)
+                    .onEnterGroup(LoadGroup)
+                    .onExitGroup(ConnectGroup)
+                    .reenter(state => state.score > 0)
+                    .transition('main', state => state.loaded)
+                .state('main')
+                    .final();
+            const { fsm, controller } = createTestFSM(builder);
+
+            await fsm.start();
+            await driveStore(fsm, [{ score: 1 }]);
+
+            expect(fsm.currentState).toBe('loading');
+            expect(controller.groups).toEqual(['LoadGroup', 'ConnectGroup', 'LoadGroup']);
+            expect(fsm.history.map(record => record.to)).toEqual(['loading']);
+            expect(factory).toHaveBeenCalledTimes(2);
+        });
+
+        it('runs actions without leaving the state on internal transition', async () => {
+            const HudGroup = group('HudGroup');
+            const builder = createBuilder()
+                .initialState('game')
+                .state('game')
+                    .context(() => ({ id: 1 }))
+                    .onEnterGroup(MainGroup)
+                    .onExitGroup(ConnectGroup)
+                    .internal((state, prev) => state.score !== prev.score, [HudGroup])
+                    .internalOn('hit', [HudGroup])
+                    .transition('over', state => state.score < 0)
+                .state('over')
+                    .final();
+            const { fsm, controller } = createTestFSM(builder);
+            const transitions: string[] = [];
+            fsm.on('transition', ({ from, to }) => transitions.push(from + '->' + to));
+
+            await fsm.start();
+            const context = fsm.context;
+
+            await driveStore(fsm, [{ score: 10 }]);
+            expect(await fsm.send('hit')).toBe(true);
+
+            expect(fsm.currentState).toBe('game');
+            expect(fsm.context).toBe(context);
+            expect(fsm.history).toEqual([]);
+            expect(transitions).toEqual(['game->game', 'game->game']);
+            expect(controller.groups).toEqual(['MainGroup', 'HudGroup', 'HudGroup']);
+            expect(controller.executions[1].data).toMatchObject({ from: 'game', to: 'game', context });
+        });
+
+        it('stays in the state when internal actions fail', async () => {
+            const HudGroup = group('HudGroup');
+            const builder = createBuilder()
+                .initialState('game')
+                .state('game')
+                    .internalOn('hit', [HudGroup])
+                .state('over');
+            const { fsm, controller } = createTestFSM(builder);
+            const errors: unknown[] = [];
+            fsm.on('error', ({ error }) => errors.push(error));
+            controller.fail(HudGroup);
+
+            await fsm.start();
+            await fsm.send('hit');
+
+            expect(fsm.currentState).toBe('game');
+            expect(errors).toHaveLength(1);
+        });
+    });
+
+    describe('transition actions', () => {
+        const FadeFromMenu = group('FadeFromMenu');
+        const FadeFromLoading = group('FadeFromLoading');
+
+        function createActionsBuilder() {
+            return createBuilder()
+                .initialState('menu')
+                .state('menu')
+                    .onExitGroup(ConnectGroup)
+                    .on('play', 'game').do(FadeFromMenu)
+                    .on('load', 'loading')
+                .state('loading')
+                    .onExitGroup(LoadGroup)
+                    .on('done', 'game').do(FadeFromLoading)
+                .state('game')
+                    .onEnterGroup(MainGroup)
+                    .on('quit', 'menu');
+        }
+
+        it('runs actions between onExit and onEnter', async () => {
+            const { fsm, controller } = createTestFSM(createActionsBuilder());
+
+            await fsm.start();
+            await fsm.send('play');
+            expect(controller.groups).toEqual(['ConnectGroup', 'FadeFromMenu', 'MainGroup']);
+            expect(controller.executions[1].data).toMatchObject({ from: 'menu', to: 'game' });
+
+            controller.clear();
+            await fsm.send('quit');
+            await fsm.send('load');
+            await fsm.send('done');
+            expect(controller.groups).toEqual(['ConnectGroup', 'LoadGroup', 'FadeFromLoading', 'MainGroup']);
+        });
+
+        it('applies error policy when actions fail', async () => {
+            const { fsm, controller } = createTestFSM(createActionsBuilder().defaultErrorPolicy(ErrorPolicy.Previous));
+            controller.fail(FadeFromMenu);
+
+            await fsm.start();
+            await fsm.send('play');
+
+            expect(fsm.currentState).toBe('menu');
+            expect(controller.groups).toEqual(['ConnectGroup', 'FadeFromMenu']);
+        });
+
+        it('enters error state directly when actions fail', async () => {
+            const { fsm, controller } = createTestFSM(
+                createActionsBuilder()
+                    .state('error')
+                    .defaultErrorPolicy(ErrorPolicy.ErrorState)
+                    .defaultErrorState('error')
+            );
+            const entered: string[] = [];
+            fsm.on('enter', ({ from, to }) => entered.push(from + '->' + to));
+            controller.fail(FadeFromMenu);
+
+            await fsm.start();
+            await fsm.send('play');
+
+            expect(fsm.currentState).toBe('error');
+            expect(entered).toEqual(['->menu', 'menu->error']);
+            expect(controller.groups).not.toContain('MainGroup');
+        });
+
+        it('enters target state after failed actions with ErrorPolicy.Next', async () => {
+            const { fsm, controller } = createTestFSM(createActionsBuilder().defaultErrorPolicy(ErrorPolicy.Next));
+            controller.fail(FadeFromMenu);
+
+            await fsm.start();
+            await fsm.send('play');
+
+            expect(fsm.currentState).toBe('game');
+            expect(controller.groups).toEqual(['ConnectGroup', 'FadeFromMenu', 'MainGroup']);
+        });
+    });
+    describe('selectors', () => {
+        it('checks conditions only when selected parts change', async () => {
+            const condition = vi.fn((state: { connected: boolean }) => state.connected);
+            const { fsm } = createTestFSM(
+                createLoadingBuilder()
+                    .state('connection')
+                        .removeTransition('loading')
+                        .transition('loading', condition)
+                            .select(state => state.connected)
+            );
+
+            await fsm.start();
+            condition.mockClear();
+
+            await driveStore(fsm, [{ score: 1 }]);
+            expect(condition).not.toHaveBeenCalled();
+            expect(fsm.queueDepth).toBe(0);
+
+            await driveStore(fsm, [{ connected: true }]);
+            expect(condition).toHaveBeenCalled();
+            expect(fsm.currentState).toBe('loading');
+        });
+
+        it('reads selected parts through adapter when listener gets no arguments', async () => {
+            const condition = vi.fn((state: { connected: boolean }) => state.connected);
+            const builder = createLoadingBuilder()
+                .state('connection')
+                    .removeTransition('loading')
+                    .transition('loading', condition)
+                        .select(state => state.connected);
+            const store = builder.buildConfig().store;
+            const subscribe = store.subscribe.bind(store);
+            store.subscribe = listener => subscribe(() => (listener as () => void)());
+            const { fsm } = createTestFSM(builder);
+
+            await fsm.start();
+            condition.mockClear();
+
+            await driveStore(fsm, [{ score: 1 }]);
+            expect(condition).not.toHaveBeenCalled();
+
+            await driveStore(fsm, [{ connected: true }]);
+            expect(fsm.currentState).toBe('loading');
+        });
+
+        it('checks conditions on every change if any transition has no selectors', async () => {
+            const condition = vi.fn((state: { connected: boolean }) => state.connected);
+            const { fsm } = createTestFSM(
+                createLoadingBuilder()
+                    .state('connection')
+                        .removeTransition('loading')
+                        .transition('loading', condition)
+                            .select(state => state.connected)
+                        .transition('main', state => state.score > 10)
+            );
+
+            await fsm.start();
+            condition.mockClear();
+
+            await driveStore(fsm, [{ score: 1 }]);
+            expect(condition).toHaveBeenCalled();
+        });
+    });
+
+    describe('sub-states history', () => {
+        function createHistoryFSM(history?: HistoryType) {
+            const store = createStore();
+            const inner = createTestFSM(
+                createBuilder('inner', store)
+                    .initialState('x')
+                    .state('x')
+                        .on('deeper', 'y')
+                    .state('y')
+            );
+            const options = { controller: inner.controller, container: inner.container, clock: inner.clock };
+            const child = createTestFSM(
+                createBuilder('child', store)
+                    .initialState('a')
+                    .state('a')
+                        .on('next', 'b')
+                    .state('b')
+                        .subStates(inner.fsm),
+                options
+            );
+            const builder = createBuilder('parent', store)
+                .initialState('game')
+                .state('game')
+                    .subStates(child.fsm)
+                    .on('pause', 'paused')
+                .state('paused')
+                    .on('back', 'game');
+            history && builder.state('game').history(history);
+
+            return { parent: createTestFSM(builder, options).fsm, child: child.fsm, inner: inner.fsm };
+        }
+
+        async function leaveAndReturn(history?: HistoryType) {
+            const machines = createHistoryFSM(history);
+
+            await machines.parent.start();
+            await machines.parent.send('next');
+            await machines.parent.send('deeper');
+            await machines.parent.send('pause');
+            await machines.parent.send('back');
+
+            return machines;
+        }
+
+        it('starts sub-states from initial state without history', async () => {
+            const { child } = await leaveAndReturn();
+            expect(child.currentState).toBe('a');
+        });
+
+        it('restores last sub-state with shallow history', async () => {
+            const { child, inner } = await leaveAndReturn(HistoryType.Shallow);
+
+            expect(child.currentState).toBe('b');
+            expect(inner.currentState).toBe('x');
+        });
+
+        it('forgets sub-states history on fresh start', async () => {
+            const { parent, child } = createHistoryFSM(HistoryType.Shallow);
+
+            await parent.start();
+            await parent.send('next');
+            await parent.stop();
+            await parent.start();
+
+            expect(child.currentState).toBe('a');
+        });
+
+        it('restores nested sub-states with deep history', async () => {
+            const { child, inner } = await leaveAndReturn(HistoryType.Deep);
+
+            expect(child.currentState).toBe('b');
+            expect(inner.currentState).toBe('y');
+        });
+
+        it('restores nested sub-states from snapshot', async () => {
+            const { parent } = createHistoryFSM();
+            await parent.start();
+            await parent.send('next');
+            await parent.send('deeper');
+            const snapshot = parent.snapshot();
+
+            const restored = createHistoryFSM();
+            await restored.parent.restore(snapshot);
+
+            expect(snapshot.subStates?.state).toBe('b');
+            expect(restored.parent.currentState).toBe('game');
+            expect(restored.child.currentState).toBe('b');
+            expect(restored.inner.currentState).toBe('y');
+        });
+    });
+
+    describe('regions', () => {
+        function createRegionsFSM() {
+            const store = createStore();
+            const options = { 
+                controller: new FakeExecutionController(), 
+                container: new FakeGroupsContainer(), 
+                clock: new ManualClock() 
+            };
+            const createRegion = (name: string) => createTestFSM(
+                createBuilder(name, store)
+                    .initialState('working')
+                    .state('working')
+                        .on('finish', 'finished')
+                    .state('finished')
+                        .final(),
+                options
+            );
+            const music = createRegion('music');
+            const gameplay = createRegion('gameplay');
+            const { fsm } = createTestFSM(
+                createBuilder('game', store)
+                    .initialState('level')
+                    .state('level')
+                        .region(music.fsm)
+                        .region(gameplay.fsm)
+                        .onDone('results')
+                    .state('results'),
+                options
+            );
+
+            return { fsm, music: music.fsm, gameplay: gameplay.fsm };
+        }
+
+        it('runs regions in parallel and transits when all of them are done', async () => {
+            const { fsm, music, gameplay } = createRegionsFSM();
+
+            await fsm.start();
+            expect(music.currentState).toBe('working');
+            expect(gameplay.currentState).toBe('working');
+
+            await music.send('finish');
+            await settle(fsm);
+            expect(fsm.currentState).toBe('level');
+
+            await gameplay.send('finish');
+            await settle(fsm);
+            expect(fsm.currentState).toBe('results');
+        });
+
+        it('forwards events to all regions', async () => {
+            const { fsm, music, gameplay } = createRegionsFSM();
+
+            await fsm.start();
+            expect(await fsm.send('finish')).toBe(true);
+            expect(music.currentState).toBe('finished');
+            expect(gameplay.currentState).toBe('finished');
+
+            await settle(fsm);
+            expect(fsm.currentState).toBe('results');
+        });
+
+        it('stops regions on exit', async () => {
+            const { fsm, music } = createRegionsFSM();
+
+            await fsm.start();
+            await fsm.transitionTo('results');
+
+            expect(await music.send('finish')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,23 @@
+import { GroupType } from 'empress-core';
+import { FSMBuilder, IStoreAdapter, ObservableStoreFactory } from '../src';
+
+export interface ITestStore {
+    connected: boolean;
+    loaded: boolean;
+    score: number;
+}
+
+export function createStore(state: Partial<ITestStore> = {}): IStoreAdapter<ITestStore> {
+    return new ObservableStoreFactory().create<ITestStore>({ connected: false, loaded: false, score: 0, ...state });
+}
+
+export function createBuilder(name: string = 'test', store = createStore()): FSMBuilder<ITestStore> {
+    return new FSMBuilder<ITestStore>(name, store).hooks({ onError: () => {} });
+}
+
+/**
+ * Группы Систем не запускаются FakeExecutionController, поэтому в тестах достаточно именованного класса.
+ */
+export function group(name: string): GroupType<any> {
+    return { [name]: class {} }[name] as unknown as GroupType<any>;
+}
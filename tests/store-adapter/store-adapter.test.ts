@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import { 
+    FSM_UPDATE_ACTION, 
+    IReduxStoreLike, 
+    IZustandStoreLike, 
+    ObservableStore, 
+    ObservableStoreAdapter, 
+    ReduxStoreAdapter, 
+    ReduxStoreFactory, 
+    ZustandStoreAdapter, 
+    withFSMUpdates 
+} from '../../src';
+
+interface IState {
+    score: number;
+    level: number;
+}
+
+function createReduxStore<T extends object>(
+    reducer: (state: T | undefined, action: any) => T, 
+    preloadedState?: T
+): IReduxStoreLike<T> {
+    let state = reducer(preloadedState, { type: '@@INIT' });
+    const listeners = new Set<() => void>();
+
+    return {
+        getState: () => state,
+        dispatch: action => {
+            state = reducer(state, action);
+            listeners.forEach(listener => listener());
+            return action;
+        },
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        }
+    };
+}
+
+function createZustandStore<T extends object>(initializer: () => T): IZustandStoreLike<T> {
+    let state = initializer();
+    const listeners = new Set<(state: T, prev: T) => void>();
+
+    return {
+        getState: () => state,
+        setState: partial => {
+            const prev = state;
+            state = { ...prev, ...partial };
+            listeners.forEach(listener => listener(state, prev));
+        },
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        }
+    };
+}
+
+describe('store adapters', () => {
+    it('tracks previous state of ObservableStore', () => {
+        const adapter = new ObservableStoreAdapter(new ObservableStore<IState>({ score: 0, level: 1 }));
+        const listener = vi.fn();
+        adapter.subscribe(listener);
+
+        adapter.update(state => ({ score: state.score + 10 }));
+
+        expect(adapter.getState()).toEqual({ score: 10, level: 1 });
+        expect(adapter.getPrevState()).toEqual({ score: 0, level: 1 });
+        expect(listener).toHaveBeenCalledWith({ score: 10, level: 1 }, { score: 0, level: 1 });
+    });
+
+    it('updates Redux store through wrapped reducer', () => {
+        const store = createReduxStore<IState>(withFSMUpdates(state => state ?? { score: 0, level: 1 }));
+        const adapter = new ReduxStoreAdapter(store);
+        const listener = vi.fn();
+        adapter.subscribe(listener);
+
+        adapter.update(() => ({ level: 2 }));
+
+        expect(store.getState()).toEqual({ score: 0, level: 2 });
+        expect(adapter.getPrevState()).toEqual({ score: 0, level: 1 });
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('dispatches custom update action', () => {
+        const store = createReduxStore<IState>((state = { score: 0, level: 1 }, action) => 
+            action.type === 'score/set' ? { ...state, ...action.partial } : state
+        );
+        const adapter = new ReduxStoreAdapter(store, partial => ({ type: 'score/set', partial }));
+
+        adapter.update(() => ({ score: 5 }));
+
+        expect(adapter.getState()).toEqual({ score: 5, level: 1 });
+    });
+
+    it('creates Redux store through factory', () => {
+        const adapter = new ReduxStoreFactory(createReduxStore).create<IState>({ score: 0, level: 1 });
+
+        adapter.update(() => ({ score: 3 }));
+
+        expect(adapter.getState()).toEqual({ score: 3, level: 1 });
+    });
+
+    it('ignores Redux notifications without state change', () => {
+        const store = createReduxStore<IState>(withFSMUpdates(state => state ?? { score: 0, level: 1 }));
+        const adapter = new ReduxStoreAdapter(store);
+        const listener = vi.fn();
+        adapter.subscribe(listener);
+
+        store.dispatch({ type: 'unknown' });
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('updates Zustand store', () => {
+        const store = createZustandStore<IState>(() => ({ score: 0, level: 1 }));
+        const adapter = new ZustandStoreAdapter(store);
+        const listener = vi.fn();
+        adapter.subscribe(listener);
+
+        adapter.update(() => ({ score: 7 }));
+
+        expect(store.getState()).toEqual({ score: 7, level: 1 });
+        expect(listener).toHaveBeenCalledWith({ score: 7, level: 1 }, { score: 0, level: 1 });
+    });
+
+    it('releases store subscription on unsubscribe', () => {
+        const store = createZustandStore<IState>(() => ({ score: 0, level: 1 }));
+        const unsubscribe = vi.fn();
+        const subscribe = store.subscribe;
+        store.subscribe = listener => {
+            const release = subscribe(listener);
+            return () => {
+                unsubscribe();
+                release();
+            };
+        };
+        const adapter = new ZustandStoreAdapter(store);
+        const listener = vi.fn();
+        adapter.subscribe(listener);
+
+        adapter.unsubscribe();
+        store.setState({ score: 1 });
+
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+        expect(listener).not.toHaveBeenCalled();
+        expect(adapter.getPrevState()).toEqual({ score: 0, level: 1 });
+    });
+});
+
+describe('withFSMUpdates', () => {
+    it('merges FSM update payload into state', () => {
+        const reducer = vi.fn((state: IState | undefined) => state ?? { score: 0, level: 1 });
+        const wrapped = withFSMUpdates(reducer);
+
+        expect(wrapped({ score: 1, level: 1 }, { type: FSM_UPDATE_ACTION, payload: { level: 3 } }))
+            .toEqual({ score: 1, level: 3 });
+        expect(reducer).not.toHaveBeenCalled();
+    });
+
+    it('delegates other actions to reducer', () => {
+        const reducer = vi.fn((state: IState | undefined) => state ?? { score: 0, level: 1 });
+        const wrapped = withFSMUpdates(reducer);
+
+        expect(wrapped(undefined, { type: 'other' })).toEqual({ score: 0, level: 1 });
+        expect(reducer).toHaveBeenCalledWith(undefined, { type: 'other' });
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createTestFSM, driveStore, expectTransition, runScenario } from '../../src/testing';
+import { createBuilder, group } from '../helpers';
+
+function createGameBuilder() {
+    return createBuilder()
+        .initialState('connection')
+        .state('connection')
+            .onEnterGroup(group('ConnectGroup'))
+            .transition('loading', state => state.connected)
+        .state('loading')
+            .onEnterGroup(group('LoadGroup'))
+            .after(500, 'main')
+        .state('main')
+            .on('restart', 'connection')
+            .onEnterGroup(group('MainGroup'));
+}
+
+describe('testing', () => {
+    it('records executed groups in order', async () => {
+        const { fsm, controller } = createTestFSM(createGameBuilder());
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        const executions = controller.executions.filter(execution => execution.groups.length);
+        expect(executions.map(execution => execution.groups)).toEqual([['ConnectGroup'], ['LoadGroup']]);
+    });
+
+    it('checks the last transition from state', async () => {
+        const { fsm } = createTestFSM(createGameBuilder());
+
+        await fsm.start();
+        await driveStore(fsm, [{ connected: true }]);
+
+        expect(() => expectTransition(fsm, 'connection', 'loading')).not.toThrow();
+        expect(() => expectTransition(fsm, 'connection', 'main')).toThrow('moved to loading');
+        expect(() => expectTransition(fsm, 'loading', 'main')).toThrow('never left loading');
+    });
+
+    it('runs scenario step by step', async () => {
+        const result = await runScenario(createTestFSM(createGameBuilder()), [
+            { update: { connected: true } },
+            { expect: 'loading' },
+            { tick: 500 },
+            { expect: 'main' },
+            { send: 'restart' }
+        ]);
+
+        expect(result.states).toEqual(['loading', 'loading', 'main', 'main', 'connection']);
+        expect(result.groups).toEqual(['ConnectGroup', 'LoadGroup', 'MainGroup', 'ConnectGroup']);
+    });
+
+    it('fails scenario on unexpected state', async () => {
+        const scenario = runScenario(createTestFSM(createGameBuilder()), [
+            { expect: 'main' }
+        ]);
+
+        await expect(scenario).rejects.toThrow('Step 0: expected test to be in main, but it is in connection');
+    });
+});
@@ -5,7 +5,7 @@ import { resolve } from 'path';
 
 export default defineConfig({
     base: './',
-    plugins: [dts({ rollupTypes: true })],
+    plugins: [dts({ include: ['src'] })],
 
     resolve: {
         alias: {
@@ -16,9 +16,14 @@ export default defineConfig({
 
     build: {
         lib: {
-            entry: resolve(__dirname, 'src/index.ts'),
-            name: 'EmpressFSM',
-            fileName: 'index',
+            // Модуль тестирования собирается отдельной точкой входа empress-fsm/testing,
+            // чтобы подмены не попадали в основной бандл
+            entry: {
+                index: resolve(__dirname, 'src/index.ts'),
+                testing: resolve(__dirname, 'src/testing/index.ts'),
+            },
+            formats: ['es', 'cjs'],
+            fileName: (format, name) => name + (format === 'es' ? '.js' : '.cjs'),
         },
         rollupOptions: {
             external: ['empress-core', 'empress-store'],